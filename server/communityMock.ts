@@ -0,0 +1,169 @@
+import { randomUUID } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import type { Connect, Plugin } from "vite";
+
+/**
+ * Faux serveur communautaire pour le développement : monté dans `vite` et `vite preview`
+ * sous /api/community, il stocke les créations dans un fichier JSON à la racine du projet.
+ *
+ * GET  /api/community?q=&page=&pageSize=  → { items, total, page, pageSize } (plus récent d'abord)
+ * GET  /api/community/:id                 → la création, ou 404
+ * POST /api/community                     → { title, boardName, board, thumbnail } → la création (201)
+ */
+type StoredCreation = {
+  id: string;
+  title: string;
+  boardName: string;
+  publishedAt: string;
+  board: { schema: string; version: number; items: unknown[] } & Record<string, unknown>;
+  thumbnail: string | null;
+};
+
+const ROUTE = "/api/community";
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+const MAX_PAGE_SIZE = 50;
+const MAX_TITLE_LENGTH = 80;
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Création trop volumineuse."));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+// recherche insensible à la casse et aux accents
+function fold(s: string) {
+  return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+function toPositiveInt(v: string | null, fallback: number) {
+  const n = Number(v);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+function validatePublish(raw: unknown): Omit<StoredCreation, "id" | "publishedAt"> | string {
+  if (!raw || typeof raw !== "object") return "Corps de requête invalide.";
+  const { title, boardName, board, thumbnail } = raw as Record<string, unknown>;
+
+  if (typeof title !== "string" || !title.trim()) return "Le titre est obligatoire.";
+  if (title.trim().length > MAX_TITLE_LENGTH) return `Le titre ne doit pas dépasser ${MAX_TITLE_LENGTH} caractères.`;
+  if (typeof boardName !== "string") return "Nom du plateau manquant.";
+  if (thumbnail !== null && typeof thumbnail !== "string") return "Miniature invalide.";
+
+  const b = board as StoredCreation["board"] | null;
+  if (!b || typeof b !== "object" || b.schema !== "dtts-board" || !Array.isArray(b.items)) return "Plateau invalide.";
+  if (b.items.length === 0) return "Le plateau est vide.";
+
+  return { title: title.trim(), boardName, board: b, thumbnail };
+}
+
+function createStore(file: string) {
+  let cache: StoredCreation[] | null = null;
+
+  const load = async () => {
+    if (cache) return cache;
+    try {
+      const parsed: unknown = JSON.parse(await readFile(file, "utf8"));
+      cache = Array.isArray(parsed) ? (parsed as StoredCreation[]) : [];
+    } catch {
+      // pas encore de fichier (ou fichier corrompu) : on repart d'une liste vide
+      cache = [];
+    }
+    return cache;
+  };
+
+  const add = async (creation: StoredCreation) => {
+    const all = await load();
+    all.unshift(creation);
+    await writeFile(file, JSON.stringify(all, null, 2), "utf8");
+    return creation;
+  };
+
+  return { load, add };
+}
+
+function createMiddleware(file: string): Connect.NextHandleFunction {
+  const store = createStore(file);
+
+  return (req, res, next) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== ROUTE && !url.pathname.startsWith(`${ROUTE}/`)) return next();
+
+    const handle = async () => {
+      let id: string;
+      try {
+        id = decodeURIComponent(url.pathname.slice(ROUTE.length + 1));
+      } catch {
+        return send(res, 400, { error: "Identifiant invalide." });
+      }
+
+      if (req.method === "GET" && !id) {
+        const q = fold(url.searchParams.get("q")?.trim() ?? "");
+        const page = toPositiveInt(url.searchParams.get("page"), 1);
+        const pageSize = Math.min(MAX_PAGE_SIZE, toPositiveInt(url.searchParams.get("pageSize"), 10));
+
+        const all = await store.load();
+        const matches = q ? all.filter((c) => fold(`${c.title} ${c.boardName}`).includes(q)) : all;
+        const items = matches.slice((page - 1) * pageSize, page * pageSize);
+        return send(res, 200, { items, total: matches.length, page, pageSize });
+      }
+
+      if (req.method === "GET") {
+        const found = (await store.load()).find((c) => c.id === id);
+        return found ? send(res, 200, found) : send(res, 404, { error: "Création introuvable." });
+      }
+
+      if (req.method === "POST" && !id) {
+        let raw: unknown;
+        try {
+          raw = JSON.parse(await readBody(req));
+        } catch (e) {
+          return send(res, 400, { error: e instanceof Error && e.message.startsWith("Création") ? e.message : "JSON invalide." });
+        }
+
+        const input = validatePublish(raw);
+        if (typeof input === "string") return send(res, 400, { error: input });
+
+        const created = await store.add({ id: randomUUID().slice(0, 8), publishedAt: new Date().toISOString(), ...input });
+        return send(res, 201, created);
+      }
+
+      send(res, 405, { error: "Méthode non prise en charge." });
+    };
+
+    handle().catch((e: unknown) => send(res, 500, { error: e instanceof Error ? e.message : "Erreur interne." }));
+  };
+}
+
+export default function communityMock(options: { file?: string } = {}): Plugin {
+  const file = path.resolve(options.file ?? ".community-data.json");
+
+  return {
+    name: "dtts-community-mock",
+    configureServer(server) {
+      server.middlewares.use(createMiddleware(file));
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(createMiddleware(file));
+    },
+  };
+}
@@ -2,7 +2,7 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 
 import Community from "./views/Community";
 import CommunityItem from "./views/CommunityItem";
-import MobileView from "./views/MobileView";
+import BoardViewer from "./views/BoardViewer";
 
 import BoardBuilder from "./views/BoardBuilder";
 
@@ -16,7 +16,10 @@ export default function App() {
         <Route path="*" element={<Navigate to="/" replace />} />
         <Route path="/community" element={<Community />} />
         <Route path="/community/:id" element={<CommunityItem />} />
-        <Route path="/mobile" element={<MobileView />} />
+        <Route path="/view" element={<BoardViewer />} />
+        <Route path="/view/:id" element={<BoardViewer />} />
+        {/* ancienne page « pas disponible sur téléphone » */}
+        <Route path="/mobile" element={<Navigate to="/view" replace />} />
       </Routes>
     </BrowserRouter>
   );
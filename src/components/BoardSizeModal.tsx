@@ -0,0 +1,120 @@
+// src/components/BoardSizeModal.tsx
+import { useEffect, useState } from "react";
+import type { PlacedItem } from "../views/BoardBuilder";
+import { BOARD_SIZE_LIMITS, clampBoardSize, type BoardSize } from "../utils/boardSize";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+
+  size: BoardSize;
+  onApply: (size: BoardSize) => void;
+
+  // tuiles qui ne tiendraient plus dans la nouvelle taille
+  getDroppedItems: (size: BoardSize) => PlacedItem[];
+};
+
+export default function BoardSizeModal({ isOpen, onClose, size, onApply, getDroppedItems }: Props) {
+  const [rows, setRows] = useState(size.rows);
+  const [cols, setCols] = useState(size.cols);
+
+  // fermeture avec ESC
+  useEffect(() => {
+    if (!isOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isOpen, onClose]);
+
+  const next = clampBoardSize({ rows, cols });
+  const dropped = isOpen ? getDroppedItems(next) : [];
+  const unchanged = next.rows === size.rows && next.cols === size.cols;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center" role="dialog" aria-modal="true">
+      {/* Backdrop */}
+      <button className="absolute inset-0 bg-black/60" onClick={onClose} aria-label="Fermer" />
+
+      {/* Modal */}
+      <div className="relative w-[min(520px,92vw)] rounded-2xl bg-white shadow-xl">
+        <div className="border-b border-black/10 p-5">
+          <h2 className="text-lg font-semibold text-black">Taille du plateau</h2>
+          <p className="mt-1 text-sm text-black/70">Le plateau officiel fait 6 lignes sur 8 colonnes.</p>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm text-black">
+              Lignes
+              <input
+                type="number"
+                min={BOARD_SIZE_LIMITS.rows.min}
+                max={BOARD_SIZE_LIMITS.rows.max}
+                value={rows}
+                onChange={(e) => setRows(Number(e.target.value))}
+                className="mt-1 w-full rounded-lg border border-black/15 px-3 py-2 text-black"
+              />
+              <span className="mt-1 block text-xs text-black/50">
+                {BOARD_SIZE_LIMITS.rows.min} à {BOARD_SIZE_LIMITS.rows.max}
+              </span>
+            </label>
+
+            <label className="block text-sm text-black">
+              Colonnes
+              <input
+                type="number"
+                min={BOARD_SIZE_LIMITS.cols.min}
+                max={BOARD_SIZE_LIMITS.cols.max}
+                value={cols}
+                onChange={(e) => setCols(Number(e.target.value))}
+                className="mt-1 w-full rounded-lg border border-black/15 px-3 py-2 text-black"
+              />
+              <span className="mt-1 block text-xs text-black/50">
+                {BOARD_SIZE_LIMITS.cols.min} à {BOARD_SIZE_LIMITS.cols.max}
+              </span>
+            </label>
+          </div>
+
+          {dropped.length > 0 ? (
+            <div className="rounded-xl border border-red-500/30 bg-red-500/10 p-4 text-sm">
+              <p className="font-semibold text-red-900">
+                {dropped.length} tuile(s) seront retirées car elles dépassent du plateau {next.rows}×{next.cols} :
+              </p>
+              <ul className="mt-2 list-disc pl-5 text-red-900/80">
+                {dropped.map((it) => (
+                  <li key={it.id}>{it.name}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div className="rounded-xl border border-black/10 bg-black/5 p-4 text-sm text-black/70">Toutes les tuiles placées sont conservées.</div>
+          )}
+        </div>
+
+        <div className="flex flex-col-reverse gap-2 border-t border-black/10 p-5 sm:flex-row sm:justify-between">
+          <button onClick={onClose} className="rounded-xl border border-black/15 px-4 py-2 text-sm text-black hover:bg-black/5">
+            Retour
+          </button>
+
+          <button
+            onClick={() => {
+              onApply(next);
+              onClose();
+            }}
+            disabled={unchanged}
+            className={[
+              "rounded-xl px-4 py-2 text-sm font-medium",
+              unchanged ? "cursor-not-allowed bg-black/10 text-black/40" : "bg-black text-white hover:bg-black/90",
+            ].join(" ")}
+          >
+            Appliquer {next.rows}×{next.cols}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
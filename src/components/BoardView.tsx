@@ -0,0 +1,171 @@
+// src/components/BoardView.tsx
+import React, { useLayoutEffect, useRef, useState } from "react";
+import type { BoardSnapshot, Cell, PlacedItem } from "../views/BoardBuilder";
+import {
+  computeCellZIndex,
+  getAnchorItem,
+  getAnchorKeyFromCellKey,
+  getCellRC,
+  getRectsForCell,
+  getSliceBackground,
+  getTileRotation,
+} from "../utils/grid";
+import { EDGE_RECT_LENGTH, EDGE_RECT_OFFSET, EDGE_RECT_THICKNESS, getRoadOptionOverlay, getTileUrl, type EdgeSide } from "../utils/tileCanvas";
+
+function EdgeRect({ side, color }: { side: EdgeSide; color: "blue" | "orange" }) {
+  const base = "pointer-events-none absolute z-30 shadow-[0_0_0_1px_rgba(0,0,0,0.35)]";
+  const colorClass = color === "blue" ? "bg-blue-500" : "bg-orange-400";
+
+  const length = `${EDGE_RECT_LENGTH * 100}%`;
+  const thickness = `${EDGE_RECT_THICKNESS * 100}%`;
+  const offset = `-${EDGE_RECT_OFFSET * 100}%`;
+
+  const style: React.CSSProperties = (() => {
+    switch (side) {
+      case "top":
+        return { left: "50%", top: offset, width: length, height: thickness, transform: "translateX(-50%)" };
+      case "bottom":
+        return { left: "50%", bottom: offset, width: length, height: thickness, transform: "translateX(-50%)" };
+      case "left":
+        return { top: "50%", left: offset, width: thickness, height: length, transform: "translateY(-50%)" };
+      case "right":
+        return { top: "50%", right: offset, width: thickness, height: length, transform: "translateY(-50%)" };
+    }
+  })();
+
+  return <div className={[base, colorClass].join(" ")} style={style} />;
+}
+
+/**
+ * Contenu d'une cellule occupée : tranche de l'image tournée, overlay route et entrées.
+ * Les entrées sont dessinées dans le repère affiché (comme le PDF), hors de la rotation.
+ */
+export function TileLayer({ it, cellKey, grid }: { it: PlacedItem; cellKey: string; grid: Record<string, Cell> }) {
+  const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
+  if (!anchorKey) return null;
+
+  const { r: ar, c: ac } = getCellRC(anchorKey);
+  const { r, c } = getCellRC(cellKey);
+
+  const rotation = getTileRotation(it);
+  const roadOverlay = it.tileType === "road" ? getRoadOptionOverlay(it) : null;
+  const slice = getSliceBackground(it, c - ac, r - ar);
+
+  const rects = getRectsForCell(cellKey, grid);
+  const rectColor = it.tileType === "school" ? "blue" : it.tileType === "safe_place" ? "orange" : null;
+  const sides: EdgeSide[] = ["top", "right", "bottom", "left"];
+
+  return (
+    <div className="relative h-full w-full">
+      <div
+        className="absolute inset-0"
+        style={{
+          transform: rotation ? `rotate(${rotation}deg)` : undefined,
+          transformOrigin: "50% 50%",
+        }}
+      >
+        <div
+          className={["absolute inset-0", it.colorClass].join(" ")}
+          style={{
+            backgroundImage: `url(${getTileUrl(it.type)})`,
+            backgroundRepeat: "no-repeat",
+            ...slice,
+          }}
+        />
+      </div>
+
+      {rectColor ? sides.map((side) => (rects[side] ? <EdgeRect key={side} side={side} color={rectColor} /> : null)) : null}
+
+      {roadOverlay ? (
+        <div
+          className="pointer-events-none absolute inset-0 z-40"
+          style={{
+            backgroundImage: `url(${roadOverlay})`,
+            backgroundSize: "contain",
+            backgroundPosition: "center",
+            backgroundRepeat: "no-repeat",
+          }}
+        />
+      ) : null}
+    </div>
+  );
+}
+
+type Props = {
+  board: Pick<BoardSnapshot, "rows" | "cols" | "grid">;
+
+  // "width" : occupe toute la largeur (cartes, aperçus) ; "contain" : tient entièrement dans le parent
+  fit?: "width" | "contain";
+  printable?: boolean; // classes utilisées par les styles d'impression (cases de 3 cm)
+  className?: string;
+
+  onCellClick?: (cellKey: string, it: PlacedItem | null) => void;
+  highlightCells?: string[]; // ex. emprise de la tuile touchée dans la visionneuse
+};
+
+/** Plateau en lecture seule, rendu comme dans l'éditeur. */
+export default function BoardView({ board, fit = "width", printable = false, className, onCellClick, highlightCells }: Props) {
+  const { rows, cols, grid } = board;
+
+  const areaRef = useRef<HTMLDivElement | null>(null);
+  const [area, setArea] = useState({ w: 0, h: 0 });
+
+  useLayoutEffect(() => {
+    const el = areaRef.current;
+    if (fit !== "contain" || !el) return;
+
+    const ro = new ResizeObserver((entries) => {
+      const cr = entries[0]?.contentRect;
+      if (!cr) return;
+      setArea({ w: cr.width, h: cr.height });
+    });
+
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [fit]);
+
+  const cellPx = fit === "contain" && rows > 0 && cols > 0 ? Math.floor(Math.min(area.w / cols, area.h / rows)) : 0;
+
+  const printVars: Record<string, number> = { "--bb-cols": cols, "--bb-rows": rows };
+  const gridStyle: React.CSSProperties = {
+    gridTemplateColumns: cellPx ? `repeat(${cols}, ${cellPx}px)` : `repeat(${cols}, minmax(0, 1fr))`,
+    gridTemplateRows: cellPx ? `repeat(${rows}, ${cellPx}px)` : `repeat(${rows}, minmax(0, 1fr))`,
+    ...(fit === "contain" ? { width: cellPx * cols, height: cellPx * rows } : { width: "100%", aspectRatio: `${cols} / ${rows}` }),
+    ...printVars,
+  };
+
+  const content = (
+    <div className={["grid", printable ? "bb-print-grid" : "", className ?? ""].join(" ")} style={gridStyle}>
+      {Array.from({ length: rows * cols }).map((_, idx) => {
+        const cellKey = `${Math.floor(idx / cols)},${idx % cols}`;
+        const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
+        const it = anchorKey ? getAnchorItem(anchorKey, grid) : null;
+
+        return (
+          <div
+            key={cellKey}
+            className={[
+              "relative aspect-square select-none bg-neutral-950/40",
+              printable ? "bb-print-cell" : "",
+              grid[cellKey] ? "border-none" : "border border-neutral-500",
+              onCellClick ? "cursor-pointer" : "",
+            ].join(" ")}
+            style={{ zIndex: computeCellZIndex(cellKey, grid, rows, cols) }}
+            onClick={onCellClick ? () => onCellClick(cellKey, it) : undefined}
+          >
+            {it ? <TileLayer it={it} cellKey={cellKey} grid={grid} /> : null}
+            {highlightCells?.includes(cellKey) ? <div className="pointer-events-none absolute inset-0 z-50 border-2 border-neutral-100 bg-neutral-100/20" /> : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  if (fit !== "contain") return content;
+
+  return (
+    <div ref={areaRef} className="flex h-full w-full min-h-0 items-start justify-center overflow-hidden">
+      {content}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+// src/components/BottomSheet.tsx
+import { useEffect } from "react";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  children: React.ReactNode;
+};
+
+// Panneau qui monte du bas de l'écran (mise en page téléphone). Il reste monté une fois fermé :
+// un glisser commencé dans le panneau continue quand celui-ci se referme pour montrer la grille.
+export default function BottomSheet({ isOpen, onClose, title, children }: Props) {
+  // fermeture avec ESC
+  useEffect(() => {
+    if (!isOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isOpen, onClose]);
+
+  return (
+    <div className={["fixed inset-0 z-[900]", isOpen ? "" : "pointer-events-none"].join(" ")} role="dialog" aria-modal={isOpen} aria-label={title} inert={!isOpen}>
+      {/* Backdrop */}
+      <button
+        className={["absolute inset-0 bg-black/50 transition-opacity duration-300", isOpen ? "opacity-100" : "opacity-0"].join(" ")}
+        onClick={onClose}
+        aria-label="Fermer"
+        tabIndex={isOpen ? 0 : -1}
+      />
+
+      {/* Panneau */}
+      <div
+        className={[
+          "absolute inset-x-0 bottom-0 flex max-h-[75dvh] flex-col rounded-t-2xl border-t border-neutral-800 bg-neutral-950 shadow-2xl transition-transform duration-300 ease-in-out",
+          isOpen ? "translate-y-0" : "translate-y-full",
+        ].join(" ")}
+      >
+        <div className="flex justify-center pt-2" aria-hidden="true">
+          <div className="h-1 w-10 rounded-full bg-neutral-700" />
+        </div>
+        <div className="flex items-center justify-between border-b border-neutral-800 px-4 pb-2">
+          <h2 className="text-sm font-semibold text-neutral-200">{title}</h2>
+          <button className="rounded-md px-2 py-0.5 text-neutral-400 hover:bg-neutral-800 hover:text-neutral-100" onClick={onClose} aria-label={`Fermer : ${title}`}>
+            ✕
+          </button>
+        </div>
+        <div className="min-h-0 flex-1 overflow-auto p-2">{children}</div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
-import React, { useLayoutEffect, useMemo, useState } from "react";
+import React, { useEffect, useLayoutEffect, useMemo, useState } from "react";
 import type { Cell, DragPayload, PlacedItem } from "../views/BoardBuilder";
+import type { RuleSeverity } from "../utils/boardRules";
+import { getCellLabel, getCellRC, getTileRotation } from "../utils/grid";
+import { usePanZoom } from "../utils/panZoom";
 
 type Props = {
   rows: number;
@@ -26,7 +29,30 @@ type Props = {
 
   startDragMoveFromCell: (e: React.DragEvent, it: PlacedItem, cellKey: string, anchorKey: string) => void;
 
+  // tactile / stylet : appui long sur une tuile (drag HTML5 réservé à la souris)
+  nativeDrag: boolean;
+  onTilePointerDown: (e: React.PointerEvent, it: PlacedItem, cellKey: string, anchorKey: string) => void;
+  isPointerDragging: boolean;
+
   renderTileLayer: (args: { it: PlacedItem; tileBg: string | null; cellKey: string }) => React.ReactNode;
+
+  issueCells?: Record<string, RuleSeverity>; // cases en infraction (validation des règles)
+  heatmap?: { values: Record<string, number>; max: number } | null; // distances depuis les écoles
+
+  // sélection multiple : Maj+clic, ou rectangle tracé depuis une case vide
+  selectedIds: string[];
+  onToggleSelect: (cellKey: string) => void;
+  onSelectRect: (fromKey: string, toKey: string) => void;
+
+  // collage en cours : aperçu du groupe sous la souris (vert s'il tient, rouge sinon)
+  isPasting: boolean;
+  pastePreview: { cells: Set<string>; ok: boolean } | null;
+  onPasteHover: (cellKey: string | null) => void;
+  onPasteAt: (cellKey: string) => void;
+
+  // pose case par case : une tuile de la palette est armée, chaque case vide touchée la reçoit
+  isPlacing: boolean;
+  onPlaceAt: (cellKey: string) => void;
 };
 
 export default function Grid({
@@ -46,10 +72,55 @@ export default function Grid({
   placeAtCell,
   getDropAnchorCell,
   startDragMoveFromCell,
+  nativeDrag,
+  onTilePointerDown,
+  isPointerDragging,
   renderTileLayer,
+  issueCells = {},
+  heatmap = null,
+  selectedIds,
+  onToggleSelect,
+  onSelectRect,
+  isPasting,
+  pastePreview,
+  onPasteHover,
+  onPasteAt,
+  isPlacing,
+  onPlaceAt,
 }: Props) {
   const [area, setArea] = useState({ w: 0, h: 0 });
 
+  // pincer pour zoomer, glisser à un doigt pour se déplacer quand le plateau est zoomé
+  const panZoom = usePanZoom(area, { paused: isPointerDragging });
+  const [band, setBand] = useState<{ from: string; to: string } | null>(null);
+
+  // fin du rectangle de sélection, même si la souris est relâchée hors de la grille
+  useEffect(() => {
+    if (!band) return;
+    const onMouseUp = () => {
+      if (band.from !== band.to) onSelectRect(band.from, band.to);
+      setBand(null);
+    };
+    window.addEventListener("mouseup", onMouseUp);
+    return () => window.removeEventListener("mouseup", onMouseUp);
+  }, [band, onSelectRect]);
+
+  // focus « itinérant » : une seule case dans l'ordre de tabulation, qui suit la sélection
+  const focusKey = (selectedCell && getAnchorKeyFromCellKey(selectedCell)) ?? selectedCell ?? "0,0";
+
+  useEffect(() => {
+    const root = gridAreaRef.current;
+    if (!root || !root.contains(document.activeElement) || document.activeElement?.getAttribute("data-cell") === focusKey) return;
+    root.querySelector<HTMLElement>(`[data-cell="${focusKey}"]`)?.focus();
+  }, [focusKey, gridAreaRef]);
+
+  const bandRect = useMemo(() => {
+    if (!band) return null;
+    const a = getCellRC(band.from);
+    const b = getCellRC(band.to);
+    return { top: Math.min(a.r, b.r), bottom: Math.max(a.r, b.r), left: Math.min(a.c, b.c), right: Math.max(a.c, b.c) };
+  }, [band]);
+
   useLayoutEffect(() => {
     const el = gridAreaRef.current;
     if (!el) return;
@@ -84,9 +155,24 @@ export default function Grid({
   };
 
   return (
-    <main className="flex h-full min-h-0 flex-col overflow-hidden rounded-2xl border border-neutral-800 bg-[#ff2020] p-3">
-      <div ref={gridAreaRef} className="flex-1 min-h-0 w-full overflow-hidden">
-        <div className="flex h-full w-full items-start justify-center">
+    <main
+      className={["flex h-full min-h-0 flex-col overflow-hidden rounded-2xl border border-neutral-800 bg-[#ff2020] p-3", isPasting || isPlacing ? "cursor-copy" : ""].join(" ")}
+      onMouseLeave={() => isPasting && onPasteHover(null)}
+    >
+      <div
+        ref={gridAreaRef}
+        className="relative flex-1 min-h-0 w-full overflow-hidden touch-none"
+        {...panZoom.bind}
+      >
+        {panZoom.view.zoom > 1 ? (
+          <button
+            className="absolute right-2 top-2 z-[70] rounded-lg bg-neutral-900/90 px-2 py-1 text-xs text-neutral-100 shadow print:hidden"
+            onClick={panZoom.reset}
+          >
+            {Math.round(panZoom.view.zoom * 100)} % · Réinitialiser
+          </button>
+        ) : null}
+        <div className="flex h-full w-full items-start justify-center" style={panZoom.style}>
           <div
             className="shrink-0"
             style={{
@@ -94,8 +180,16 @@ export default function Grid({
               height: gridH ? `${gridH}px` : "100%",
             }}
           >
+            <p id="bb-grid-help" className="sr-only">
+              Flèches : changer de case. Entrée sur une case vide : poser une tuile. Maj + flèches : déplacer la tuile. Suppr : supprimer. R : pivoter.
+            </p>
             <div
               className="grid bb-print-grid"
+              role="grid"
+              aria-label={`Plateau ${boardName || ""} : ${rows} lignes, ${cols} colonnes`}
+              aria-rowcount={rows}
+              aria-colcount={cols}
+              aria-describedby="bb-grid-help"
               style={{
                 width: "100%",
                 height: "100%",
@@ -105,65 +199,134 @@ export default function Grid({
                 ["--bb-rows" as any]: rows,
               }}
             >
-              {Array.from({ length: rows * cols }).map((_, idx) => {
-                const r = Math.floor(idx / cols);
-                const c = idx % cols;
-                const cellKey = `${r},${c}`;
-
-                const cell = grid[cellKey];
-                const anchorKey = getAnchorKeyFromCellKey(cellKey);
-                const it = anchorKey ? getAnchorItem(anchorKey) : null;
-
-                const isSelected = !!anchorKey && selectedCell === anchorKey;
-                const zIndex = computeCellZIndex(cellKey);
-                const tileBg = it ? getTileUrl(it.type) : null;
-
-                return (
-                  <div
-                    key={cellKey}
-                    className={[
-                      "relative select-none transition",
-                      "bg-neutral-950/40",
-                      "bb-print-cell",
-                      cell ? "border-none" : "border border-neutral-500",
-                      isSelected ? "ring-2 ring-neutral-200" : "",
-                    ].join(" ")}
-                    style={{
-                      zIndex,
-                      width: `${cellPx}px`,
-                      height: `${cellPx}px`,
-                    }}
-                    onClick={() => setSelectedCell(anchorKey ?? cellKey)}
-                    onDragOver={(e) => {
-                      e.preventDefault();
-                      e.dataTransfer.dropEffect = "move";
-                    }}
-                    onDrop={(e) => {
-                      e.preventDefault();
-                      const payload = parsePayload(e.dataTransfer.getData("application/x-boardbuilder"));
-                      if (!payload) return;
-
-                      placeAtCell(payload, cellKey);
-
-                      const newAnchor = payload.kind === "move" ? getDropAnchorCell(cellKey, payload) : cellKey;
-                      setSelectedCell(newAnchor);
-                    }}
-                  >
-                    {it ? (
+              {Array.from({ length: rows }).map((_, r) => (
+                <div key={r} role="row" aria-rowindex={r + 1} className="contents">
+                  {Array.from({ length: cols }).map((_, c) => {
+                    const cellKey = `${r},${c}`;
+
+                    const cell = grid[cellKey];
+                    const anchorKey = getAnchorKeyFromCellKey(cellKey);
+                    const it = anchorKey ? getAnchorItem(anchorKey) : null;
+
+                    const isSelected = selectedCell === (anchorKey ?? cellKey);
+                    const isMultiSelected = !!it && selectedIds.includes(it.id);
+                    const inBand = !!bandRect && r >= bandRect.top && r <= bandRect.bottom && c >= bandRect.left && c <= bandRect.right;
+                    const inPaste = !!pastePreview?.cells.has(cellKey);
+                    const zIndex = computeCellZIndex(cellKey);
+                    const tileBg = it ? getTileUrl(it.type) : null;
+                    const issue = issueCells[cellKey];
+                    const distance = heatmap?.values[cellKey];
+
+                    const label = it
+                      ? `${getCellLabel(cellKey)} : ${it.name}${getTileRotation(it) ? `, pivotée de ${getTileRotation(it)}°` : ""}`
+                      : `${getCellLabel(cellKey)} : vide`;
+
+                    return (
                       <div
-                        draggable
-                        onDragStart={(e) => {
-                          if (!anchorKey) return;
-                          startDragMoveFromCell(e, it, cellKey, anchorKey);
+                        key={cellKey}
+                        data-cell={cellKey}
+                        role="gridcell"
+                        aria-colindex={c + 1}
+                        aria-label={label}
+                        aria-selected={isSelected || isMultiSelected}
+                        tabIndex={cellKey === focusKey ? 0 : -1}
+                        className={[
+                          "relative select-none transition outline-none focus-visible:ring-4 focus-visible:ring-sky-400",
+                          "bg-neutral-950/40",
+                          "bb-print-cell",
+                          cell ? "border-none" : "border border-neutral-500",
+                          isSelected ? "ring-2 ring-neutral-200" : "",
+                        ].join(" ")}
+                        style={{
+                          zIndex,
+                          width: `${cellPx}px`,
+                          height: `${cellPx}px`,
+                        }}
+                        onClick={(e) => {
+                          if (isPasting) onPasteAt(cellKey);
+                          else if (isPlacing && !it) onPlaceAt(cellKey);
+                          else if (e.shiftKey) onToggleSelect(cellKey);
+                          else setSelectedCell(anchorKey ?? cellKey);
+                        }}
+                        onMouseDown={(e) => {
+                          if (e.button !== 0 || isPasting || it) return;
+                          setBand({ from: cellKey, to: cellKey });
+                        }}
+                        onMouseEnter={() => {
+                          if (isPasting) onPasteHover(cellKey);
+                          if (band) setBand({ ...band, to: cellKey });
+                        }}
+                        onDragOver={(e) => {
+                          e.preventDefault();
+                          e.dataTransfer.dropEffect = "move";
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          const payload = parsePayload(e.dataTransfer.getData("application/x-boardbuilder"));
+                          if (!payload) return;
+
+                          placeAtCell(payload, cellKey);
+
+                          // un groupe déplacé garde sa sélection
+                          if (payload.kind === "group") return;
+                          const newAnchor = payload.kind === "move" ? getDropAnchorCell(cellKey, payload) : cellKey;
+                          setSelectedCell(newAnchor);
                         }}
-                        className="h-full w-full cursor-grab active:cursor-grabbing"
                       >
-                        {renderTileLayer({ it, tileBg, cellKey })}
+                        {it ? (
+                          <div
+                            draggable={nativeDrag}
+                            onDragStart={(e) => {
+                              if (!anchorKey) return;
+                              startDragMoveFromCell(e, it, cellKey, anchorKey);
+                            }}
+                            onPointerDown={(e) => anchorKey && onTilePointerDown(e, it, cellKey, anchorKey)}
+                            className="h-full w-full cursor-grab select-none active:cursor-grabbing [-webkit-touch-callout:none]"
+                          >
+                            {renderTileLayer({ it, tileBg, cellKey })}
+                          </div>
+                        ) : null}
+                        {heatmap && distance !== undefined ? (
+                          <div
+                            className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center font-semibold text-white [text-shadow:0_1px_2px_rgb(0_0_0/0.8)]"
+                            style={{
+                              // vert (proche d'une école) → rouge (loin)
+                              backgroundColor: `hsl(${120 - 120 * (heatmap.max > 1 ? (distance - 1) / (heatmap.max - 1) : 0)} 85% 45% / 0.55)`,
+                              fontSize: `${Math.max(10, cellPx * 0.3)}px`,
+                            }}
+                          >
+                            {distance}
+                          </div>
+                        ) : null}
+                        {isMultiSelected || inBand ? (
+                          <div
+                            className={[
+                              "pointer-events-none absolute inset-0 z-20",
+                              isMultiSelected ? "border-2 border-sky-300 bg-sky-300/20" : "border border-dashed border-sky-200 bg-sky-200/10",
+                            ].join(" ")}
+                          />
+                        ) : null}
+                        {inPaste ? (
+                          <div
+                            className={[
+                              "pointer-events-none absolute inset-0 z-30 border-2",
+                              pastePreview?.ok ? "border-emerald-400 bg-emerald-400/35" : "border-red-500 bg-red-500/40",
+                            ].join(" ")}
+                          />
+                        ) : null}
+                        {issue ? (
+                          <div
+                            className={[
+                              "pointer-events-none absolute inset-0 z-10 border-4",
+                              issue === "error" ? "border-red-600 bg-red-600/25" : "border-amber-400 bg-amber-400/20",
+                            ].join(" ")}
+                          />
+                        ) : null}
                       </div>
-                    ) : null}
-                  </div>
-                );
-              })}
+                    );
+                  })}
+                </div>
+              ))}
             </div>
           </div>
         </div>
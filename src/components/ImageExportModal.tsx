@@ -0,0 +1,142 @@
+// src/components/ImageExportModal.tsx
+import { useEffect, useState } from "react";
+import type { BoardSnapshot } from "../views/BoardBuilder";
+import { DEFAULT_IMAGE_OPTIONS, IMAGE_RESOLUTIONS, getBoardImageLayout, renderBoardPng, renderBoardSvg, type BoardImageOptions } from "../utils/boardImage";
+import { validateBoard } from "../utils/boardRules";
+import { downloadBlob, safeFileName } from "../utils/download";
+import RuleIssuesBox from "./RuleIssuesBox";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+  board: BoardSnapshot;
+};
+
+export default function ImageExportModal({ isOpen, onClose, board }: Props) {
+  const [options, setOptions] = useState<BoardImageOptions>(DEFAULT_IMAGE_OPTIONS);
+  const [embedImages, setEmbedImages] = useState(true);
+  const [busy, setBusy] = useState<"png" | "svg" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // fermeture avec ESC
+  useEffect(() => {
+    if (!isOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const layout = getBoardImageLayout(board.rows, board.cols, options);
+  const fileBase = safeFileName(board.boardName);
+  const validation = validateBoard(board);
+
+  async function run(kind: "png" | "svg") {
+    setBusy(kind);
+    setError(null);
+    try {
+      if (kind === "png") {
+        downloadBlob(await renderBoardPng(board, options), `${fileBase}.png`);
+      } else {
+        const svg = await renderBoardSvg(board, { ...options, embedImages });
+        downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${fileBase}.svg`);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Export impossible.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center" role="dialog" aria-modal="true">
+      {/* Backdrop */}
+      <button className="absolute inset-0 bg-black/60" onClick={onClose} aria-label="Fermer" />
+
+      {/* Modal */}
+      <div className="relative w-[min(560px,92vw)] rounded-2xl bg-white shadow-xl">
+        <div className="border-b border-black/10 p-5">
+          <h2 className="text-lg font-semibold text-black">Exporter en image</h2>
+          <p className="mt-1 text-sm text-black/70">Une image du plateau à partager sur Discord, un forum ou un réseau social.</p>
+        </div>
+
+        <div className="p-5 space-y-4 text-sm text-black">
+          <RuleIssuesBox validation={validation} context="le partage" />
+
+          <label className="block">
+            Résolution
+            <select
+              value={options.cellPx}
+              onChange={(e) => setOptions((o) => ({ ...o, cellPx: Number(e.target.value) }))}
+              className="mt-1 w-full rounded-lg border border-black/15 bg-white px-2 py-1.5"
+            >
+              {IMAGE_RESOLUTIONS.map((r) => (
+                <option key={r.cellPx} value={r.cellPx}>
+                  {r.label} ({r.cellPx} px par case)
+                </option>
+              ))}
+            </select>
+            <span className="mt-1 block text-xs text-black/60">
+              Image de {layout.width} × {layout.height} px.
+            </span>
+          </label>
+
+          <fieldset>
+            <legend>Fond</legend>
+            <div className="mt-1 flex gap-4">
+              {(
+                [
+                  ["red", "Rouge (comme le PDF)"],
+                  ["transparent", "Transparent"],
+                ] as const
+              ).map(([value, label]) => (
+                <label key={value} className="flex items-center gap-2">
+                  <input type="radio" name="image-background" checked={options.background === value} onChange={() => setOptions((o) => ({ ...o, background: value }))} />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={options.banner} onChange={(e) => setOptions((o) => ({ ...o, banner: e.target.checked }))} />
+            Cartouche jaune avec le nom du plateau
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={embedImages} onChange={(e) => setEmbedImages(e.target.checked)} />
+            SVG : intégrer les images des tuiles (fichier autonome, plus lourd)
+          </label>
+
+          {error && <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-red-900">{error}</div>}
+        </div>
+
+        <div className="flex flex-col-reverse gap-2 border-t border-black/10 p-5 sm:flex-row sm:justify-between">
+          <button onClick={onClose} className="rounded-xl border border-black/15 px-4 py-2 text-sm text-black hover:bg-black/5">
+            Retour
+          </button>
+
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <button
+              onClick={() => void run("svg")}
+              disabled={!!busy}
+              className="rounded-xl border border-black/15 bg-white px-4 py-2 text-sm font-medium text-black hover:bg-black/5 disabled:opacity-40"
+            >
+              {busy === "svg" ? "Export…" : "Exporter SVG"}
+            </button>
+            <button
+              onClick={() => void run("png")}
+              disabled={!!busy}
+              className="rounded-xl bg-black px-4 py-2 text-sm font-medium text-white hover:bg-black/90 disabled:bg-black/10 disabled:text-black/40"
+            >
+              {busy === "png" ? "Export…" : "Exporter PNG"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
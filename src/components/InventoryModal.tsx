@@ -0,0 +1,158 @@
+// src/components/InventoryModal.tsx
+import { useEffect, useMemo, useState } from "react";
+import type { Cell, RoadOptions, TileType } from "../views/BoardBuilder";
+import { OVERLAY_LABELS, TILE_TYPE_LABELS, computeInventory, getStockShortages, type OwnedStock } from "../utils/inventory";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+
+  grid: Record<string, Cell>;
+  getTileUrl: (type: string) => string;
+
+  stock: OwnedStock;
+  onStockChange: (stock: OwnedStock) => void;
+};
+
+export default function InventoryModal({ isOpen, onClose, grid, getTileUrl, stock, onStockChange }: Props) {
+  const [showAll, setShowAll] = useState(false);
+  const inventory = useMemo(() => computeInventory(grid, stock), [grid, stock]);
+  const shortages = getStockShortages(inventory);
+
+  // fermeture avec ESC
+  useEffect(() => {
+    if (!isOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const lines = showAll ? inventory.lines : inventory.lines.filter((l) => l.count > 0 || l.owned !== null);
+
+  function setOwned(type: string, raw: string) {
+    const next = { ...stock };
+    const v = Number.parseInt(raw, 10);
+    if (raw.trim() === "" || !Number.isFinite(v) || v < 0) delete next[type];
+    else next[type] = v;
+    onStockChange(next);
+  }
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center" role="dialog" aria-modal="true">
+      {/* Backdrop */}
+      <button className="absolute inset-0 bg-black/60" onClick={onClose} aria-label="Fermer" />
+
+      {/* Modal */}
+      <div className="relative flex max-h-[92vh] w-[min(720px,92vw)] flex-col rounded-2xl bg-white shadow-xl">
+        <div className="border-b border-black/10 p-5">
+          <h2 className="text-lg font-semibold text-black">Inventaire du plateau</h2>
+          <p className="mt-1 text-sm text-black/70">
+            Pièces nécessaires pour construire ce plateau. Indiquez combien vous en possédez pour être prévenu s’il en manque.
+          </p>
+        </div>
+
+        <div className="min-h-0 flex-1 space-y-4 overflow-y-auto p-5 text-sm text-black">
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+            <Stat label="Tuiles" value={inventory.total} />
+            {(Object.keys(TILE_TYPE_LABELS) as TileType[]).map((t) => (
+              <Stat key={t} label={TILE_TYPE_LABELS[t]} value={inventory.byTileType[t]} />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+            {(Object.keys(OVERLAY_LABELS) as Array<keyof RoadOptions>).map((k) => (
+              <Stat key={k} label={OVERLAY_LABELS[k]} value={inventory.overlays[k]} small />
+            ))}
+            <Stat label="Entrées d’école" value={inventory.entrances.school} small />
+            <Stat label="Entrées de zone sûre" value={inventory.entrances.safe_place} small />
+          </div>
+
+          {shortages.length > 0 && (
+            <div className="rounded-xl border border-amber-500/40 bg-amber-500/10 p-4 text-amber-950">
+              <p className="font-semibold">Il manque des pièces pour construire ce plateau :</p>
+              <ul className="mt-1 list-disc pl-5">
+                {shortages.map((l) => (
+                  <li key={l.type}>
+                    {l.name} ({l.type}) : {l.count} utilisée(s), {l.owned} possédée(s)
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="overflow-hidden rounded-xl border border-black/10">
+            <table className="w-full text-left">
+              <thead className="bg-black/5 text-xs text-black/60">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Tuile</th>
+                  <th className="px-3 py-2 font-medium">Famille</th>
+                  <th className="px-3 py-2 text-right font-medium">Utilisées</th>
+                  <th className="px-3 py-2 text-right font-medium">Possédées</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-3 py-4 text-center text-black/60">
+                      Aucune tuile sur le plateau.
+                    </td>
+                  </tr>
+                )}
+                {lines.map((l) => (
+                  <tr key={l.type} className={["border-t border-black/5", l.missing > 0 ? "bg-amber-500/10" : ""].join(" ")}>
+                    <td className="px-3 py-1.5">
+                      <div className="flex items-center gap-2">
+                        <img src={getTileUrl(l.type)} alt="" className="h-7 w-7 shrink-0 rounded object-cover" />
+                        <div className="min-w-0">
+                          <div className="truncate">{l.name}</div>
+                          <div className="truncate font-mono text-[11px] text-black/50">{l.type}</div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-3 py-1.5 text-black/70">{TILE_TYPE_LABELS[l.tileType]}</td>
+                    <td className={["px-3 py-1.5 text-right tabular-nums", l.missing > 0 ? "font-semibold text-amber-900" : ""].join(" ")}>{l.count}</td>
+                    <td className="px-3 py-1.5 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        value={l.owned ?? ""}
+                        placeholder="∞"
+                        onChange={(e) => setOwned(l.type, e.target.value)}
+                        aria-label={`Pièces possédées : ${l.name} (${l.type})`}
+                        className="w-16 rounded-lg border border-black/15 px-2 py-1 text-right tabular-nums"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <label className="flex items-center gap-2 text-black/70">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Afficher toutes les tuiles de la palette
+          </label>
+        </div>
+
+        <div className="flex justify-end border-t border-black/10 p-5">
+          <button onClick={onClose} className="rounded-xl border border-black/15 px-4 py-2 text-sm text-black hover:bg-black/5">
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value, small = false }: { label: string; value: number; small?: boolean }) {
+  return (
+    <div className="rounded-xl border border-black/10 bg-black/5 px-3 py-2">
+      <div className={small ? "text-base font-semibold tabular-nums" : "text-xl font-semibold tabular-nums"}>{value}</div>
+      <div className="text-xs text-black/60">{label}</div>
+    </div>
+  );
+}
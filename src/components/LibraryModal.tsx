@@ -0,0 +1,244 @@
+// src/components/LibraryModal.tsx
+import { useCallback, useEffect, useState } from "react";
+import { deleteBoard, duplicateBoard, listBoards, renameBoard, type LibraryEntry } from "../utils/boardLibrary";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+
+  currentId: string | null;
+  currentName: string;
+  isDirty: boolean;
+
+  onSaveAs: (name: string) => Promise<void>;
+  onOpen: (entry: LibraryEntry) => void;
+  onNew: () => void;
+
+  // le plateau ouvert a été renommé / supprimé depuis la bibliothèque
+  onCurrentRenamed: (entry: LibraryEntry) => void;
+  onCurrentDeleted: () => void;
+};
+
+function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("fr-FR", { year: "numeric", month: "short", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
+
+export default function LibraryModal({
+  isOpen,
+  onClose,
+  currentId,
+  currentName,
+  isDirty,
+  onSaveAs,
+  onOpen,
+  onNew,
+  onCurrentRenamed,
+  onCurrentDeleted,
+}: Props) {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [saveAsName, setSaveAsName] = useState(currentName);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      setEntries(await listBoards());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Impossible de lire la bibliothèque.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) void refresh();
+  }, [isOpen, refresh]);
+
+  // fermeture avec ESC
+  useEffect(() => {
+    if (!isOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isOpen, onClose]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await action();
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Opération impossible.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center" role="dialog" aria-modal="true">
+      {/* Backdrop */}
+      <button className="absolute inset-0 bg-black/60" onClick={onClose} aria-label="Fermer" />
+
+      {/* Modal */}
+      <div className="relative flex max-h-[88vh] w-[min(880px,94vw)] flex-col rounded-2xl bg-white shadow-xl">
+        <div className="border-b border-black/10 p-5">
+          <h2 className="text-lg font-semibold text-black">Mes plateaux</h2>
+          <p className="mt-1 text-sm text-black/70">Les plateaux sont enregistrés dans ce navigateur.</p>
+
+          <form
+            className="mt-4 flex flex-col gap-2 sm:flex-row"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const name = saveAsName.trim();
+              if (!name) return;
+              void run(() => onSaveAs(name));
+            }}
+          >
+            <input
+              value={saveAsName}
+              onChange={(e) => setSaveAsName(e.target.value)}
+              placeholder="Nom du plateau"
+              className="flex-1 rounded-lg border border-black/15 px-3 py-2 text-sm text-black"
+            />
+            <button
+              type="submit"
+              disabled={busy || !saveAsName.trim()}
+              className="rounded-xl bg-black px-4 py-2 text-sm font-medium text-white hover:bg-black/90 disabled:bg-black/10 disabled:text-black/40"
+            >
+              Enregistrer sous…
+            </button>
+            <button
+              type="button"
+              onClick={onNew}
+              className="rounded-xl border border-black/15 px-4 py-2 text-sm text-black hover:bg-black/5"
+            >
+              Nouveau plateau
+            </button>
+          </form>
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-auto p-5">
+          {error && <div className="mb-4 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-900">{error}</div>}
+
+          {loading ? (
+            <div className="rounded-xl border border-black/10 bg-black/5 px-4 py-6 text-sm text-black/60">Chargement…</div>
+          ) : entries.length === 0 ? (
+            <div className="rounded-xl border border-black/10 bg-black/5 px-4 py-6 text-sm text-black/60">Aucun plateau enregistré.</div>
+          ) : (
+            <ul className="space-y-3">
+              {entries.map((entry) => {
+                const isCurrent = entry.id === currentId;
+                const isEditing = editingId === entry.id;
+
+                return (
+                  <li key={entry.id} className="flex items-center gap-4 rounded-xl border border-black/10 p-3">
+                    <div className="h-20 w-28 shrink-0 overflow-hidden rounded-lg bg-[#961212]">
+                      {entry.thumbnail ? <img src={entry.thumbnail} alt="" className="h-full w-full object-contain" /> : null}
+                    </div>
+
+                    <div className="min-w-0 flex-1">
+                      {isEditing ? (
+                        <form
+                          className="flex gap-2"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            const name = draftName.trim();
+                            if (!name) return;
+                            setEditingId(null);
+                            void run(async () => {
+                              const renamed = await renameBoard(entry.id, name);
+                              if (renamed && isCurrent) onCurrentRenamed(renamed);
+                            });
+                          }}
+                        >
+                          <input
+                            autoFocus
+                            value={draftName}
+                            onChange={(e) => setDraftName(e.target.value)}
+                            className="min-w-0 flex-1 rounded-lg border border-black/15 px-2 py-1 text-sm text-black"
+                          />
+                          <button type="submit" className="rounded-lg bg-black px-3 py-1 text-xs text-white">
+                            OK
+                          </button>
+                        </form>
+                      ) : (
+                        <div className="truncate text-sm font-semibold text-black">
+                          {entry.name || "Sans nom"}
+                          {isCurrent ? (
+                            <span className="ml-2 rounded-full bg-black/5 px-2 py-0.5 text-[11px] font-normal text-black/60">
+                              {isDirty ? "Ouvert · modifié" : "Ouvert"}
+                            </span>
+                          ) : null}
+                        </div>
+                      )}
+                      <div className="mt-1 text-xs text-black/60">
+                        {entry.document.rows}×{entry.document.cols} · {entry.document.items.length} tuile(s) · Modifié le {formatDateTime(entry.updatedAt)}
+                      </div>
+                    </div>
+
+                    <div className="flex shrink-0 flex-wrap justify-end gap-1">
+                      <button
+                        disabled={busy}
+                        onClick={() => onOpen(entry)}
+                        className="rounded-lg bg-black px-3 py-1.5 text-xs font-medium text-white hover:bg-black/90 disabled:opacity-40"
+                      >
+                        Ouvrir
+                      </button>
+                      <button
+                        disabled={busy}
+                        onClick={() => void run(async () => void (await duplicateBoard(entry.id)))}
+                        className="rounded-lg border border-black/15 px-3 py-1.5 text-xs text-black hover:bg-black/5 disabled:opacity-40"
+                      >
+                        Dupliquer
+                      </button>
+                      <button
+                        disabled={busy}
+                        onClick={() => {
+                          setEditingId(entry.id);
+                          setDraftName(entry.name);
+                        }}
+                        className="rounded-lg border border-black/15 px-3 py-1.5 text-xs text-black hover:bg-black/5 disabled:opacity-40"
+                      >
+                        Renommer
+                      </button>
+                      <button
+                        disabled={busy}
+                        onClick={() => {
+                          if (!window.confirm(`Supprimer « ${entry.name} » de la bibliothèque ?`)) return;
+                          void run(async () => {
+                            await deleteBoard(entry.id);
+                            if (isCurrent) onCurrentDeleted();
+                          });
+                        }}
+                        className="rounded-lg border border-red-500/30 px-3 py-1.5 text-xs text-red-700 hover:bg-red-500/10 disabled:opacity-40"
+                      >
+                        Supprimer
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end border-t border-black/10 p-5">
+          <button onClick={onClose} className="rounded-xl border border-black/15 px-4 py-2 text-sm text-black hover:bg-black/5">
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import type { PlacedItem, PlacedOptions, TileRotation } from "../views/BoardBuilder";
 import { IconButton, Toggle } from "../views/BoardBuilder";
+import { BOARD_TRANSFORM_LABELS, type BoardTransform } from "../utils/boardTransform";
 import { version } from "../../package.json";
 
 type Props = {
@@ -19,6 +20,10 @@ type Props = {
   clearBoard: () => void;
 
   getTileRotation: (it: PlacedItem) => TileRotation;
+
+  // rotation / miroir du plateau entier ou de la sélection
+  hasSelection: boolean;
+  onTransform: (op: BoardTransform, scope: "board" | "selection") => void;
 };
 
 export default function Options({
@@ -32,6 +37,8 @@ export default function Options({
   setLeftAt,
   setRightAt,
   getTileRotation,
+  hasSelection,
+  onTransform,
 }: Props) {
   return (
     <aside className="flex min-h-0 flex-col overflow-hidden rounded-2xl border border-neutral-800 bg-neutral-900/40 h-full">
@@ -160,6 +167,33 @@ export default function Options({
               )}
             </div>
           )}
+
+          <div className="mt-3 space-y-3 rounded-xl border border-neutral-800 bg-neutral-950/40 p-3">
+            <div className="text-sm font-semibold">Rotation et miroir</div>
+            {(
+              [
+                ["selection", "Sélection"],
+                ["board", "Plateau entier"],
+              ] as const
+            ).map(([scope, label]) => (
+              <div key={scope}>
+                <div className="text-xs font-semibold text-neutral-300">{label}</div>
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  {(Object.keys(BOARD_TRANSFORM_LABELS) as BoardTransform[]).map((op) => (
+                    <button
+                      key={op}
+                      type="button"
+                      disabled={scope === "selection" && !hasSelection}
+                      onClick={() => onTransform(op, scope)}
+                      className="rounded-lg border border-neutral-800 bg-neutral-950/40 px-2 py-1.5 text-xs text-neutral-200 hover:bg-neutral-900/60 disabled:opacity-40 disabled:hover:bg-neutral-950/40"
+                    >
+                      {BOARD_TRANSFORM_LABELS[op]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
         </div>
       </div>
       <footer className="w-full border-t border-neutral-800/70 bg-neutral-950/60 backdrop-blur">
@@ -1,17 +1,51 @@
 import type { DragPayload, PaletteItem } from "../views/BoardBuilder";
+import { STOCK_PRESETS, findStockPreset, type OwnedStock } from "../utils/inventory";
 
 type Props = {
   palette: PaletteItem[];
   getTileUrl: (type: string) => string;
   onRemovePlacedId: (placedId: string) => void;
+  onRemovePlacedIds: (placedIds: string[]) => void;
   parsePayload: (raw: string) => DragPayload | null;
   onClearTiles: () => void;
+
+  // stock physique : pièces restantes par type (null = pas de limite)
+  remaining: Record<string, number | null>;
+  stock: OwnedStock;
+  onStockChange: (stock: OwnedStock) => void;
+  onEditStock: () => void;
+
+  // tactile : drag HTML5 seulement à la souris, appui long ailleurs ; un appui simple arme la pose case par case
+  nativeDrag: boolean;
+  onTilePointerDown: (e: React.PointerEvent, p: PaletteItem) => void;
+  placingType: string | null;
+  onTogglePlacing: (paletteType: string) => void;
+  compact?: boolean; // dans le panneau du bas : tuiles côte à côte
 };
 
-export default function Palette({ palette, getTileUrl, onRemovePlacedId, parsePayload, onClearTiles }: Props) {
+export default function Palette({
+  palette,
+  getTileUrl,
+  onRemovePlacedId,
+  onRemovePlacedIds,
+  parsePayload,
+  onClearTiles,
+  remaining,
+  stock,
+  onStockChange,
+  onEditStock,
+  nativeDrag,
+  onTilePointerDown,
+  placingType,
+  onTogglePlacing,
+  compact = false,
+}: Props) {
+  const preset = findStockPreset(stock);
+
   return (
     <aside
       className="flex min-h-0 flex-col overflow-hidden rounded-2xl border border-neutral-800 bg-neutral-900/40 h-full min-w-76"
+      data-palette-drop
       onDragOver={(e) => {
         e.preventDefault();
         e.dataTransfer.dropEffect = "move";
@@ -21,6 +55,7 @@ export default function Palette({ palette, getTileUrl, onRemovePlacedId, parsePa
         const payload = parsePayload(e.dataTransfer.getData("application/x-boardbuilder"));
         if (!payload) return;
         if (payload.kind === "move") onRemovePlacedId(payload.placedId);
+        if (payload.kind === "group") onRemovePlacedIds(payload.placedIds);
       }}
       title="Dépose ici un élément de la grille pour le supprimer"
     >
@@ -36,10 +71,41 @@ export default function Palette({ palette, getTileUrl, onRemovePlacedId, parsePa
             Tout retirer
           </button>
         </div>
+
+        <div className="mt-2 flex items-center gap-2">
+          <label className="flex min-w-0 flex-1 items-center gap-2 text-xs text-neutral-400">
+            Stock
+            <select
+              value={preset?.id ?? "custom"}
+              onChange={(e) => {
+                const next = STOCK_PRESETS.find((p) => p.id === e.target.value);
+                if (next) onStockChange({ ...next.stock });
+              }}
+              className="min-w-0 flex-1 rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1 text-xs text-neutral-200"
+            >
+              {STOCK_PRESETS.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.label}
+                </option>
+              ))}
+              {!preset && <option value="custom">Personnalisé</option>}
+            </select>
+          </label>
+
+          <button
+            type="button"
+            onClick={onEditStock}
+            className="rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1 text-xs text-neutral-300 hover:bg-neutral-800 hover:text-neutral-100"
+          >
+            Modifier
+          </button>
+        </div>
+
+        <p className="mt-2 text-[11px] text-neutral-500">Glisse une tuile sur la grille (appui long au doigt), ou touche-la puis touche les cases où la poser.</p>
       </div>
 
       <div className="min-h-0 flex-1 overflow-auto p-3">
-        <div className="flex flex-col items-center justify-center space-y-2">
+        <div className={compact ? "flex flex-wrap items-start justify-center gap-2" : "flex flex-col items-center justify-center space-y-2"}>
           {palette.map((p) => {
             const bg = getTileUrl(p.type);
             const isWide = (p.size?.w ?? 1) > (p.size?.h ?? 1);
@@ -53,21 +119,55 @@ export default function Palette({ palette, getTileUrl, onRemovePlacedId, parsePa
             else if (isWide && is3x) dimensionsClass = "h-22 w-66";
             else if (isVertical && is3y) dimensionsClass = "h-66 w-22";
 
+            const left = remaining[p.type] ?? null;
+            const exhausted = left === 0;
+            const isPlacing = placingType === p.type;
+
             return (
               <div
                 key={p.type}
-                draggable
+                draggable={nativeDrag && !exhausted}
+                role="button"
+                tabIndex={exhausted ? -1 : 0}
+                aria-pressed={isPlacing}
+                onClick={() => !exhausted && onTogglePlacing(p.type)}
+                onKeyDown={(e) => {
+                  if (exhausted || (e.key !== "Enter" && e.key !== " ")) return;
+                  e.preventDefault();
+                  onTogglePlacing(p.type);
+                }}
+                onPointerDown={(e) => !exhausted && onTilePointerDown(e, p)}
                 onDragStart={(e) => {
+                  if (exhausted) {
+                    e.preventDefault();
+                    return;
+                  }
                   e.dataTransfer.setData("application/x-boardbuilder", JSON.stringify({ kind: "new", paletteType: p.type } satisfies DragPayload));
                   e.dataTransfer.effectAllowed = "copyMove";
                 }}
-                className="cursor-grab active:cursor-grabbing"
-                title={p.name}
+                className={[
+                  "relative select-none [-webkit-touch-callout:none]",
+                  exhausted ? "cursor-not-allowed opacity-40 grayscale" : "cursor-grab active:cursor-grabbing",
+                  isPlacing ? "ring-2 ring-sky-400 ring-offset-2 ring-offset-neutral-950" : "",
+                ].join(" ")}
+                title={exhausted ? `${p.name} : plus de pièce disponible` : p.name}
+                aria-disabled={exhausted || undefined}
               >
                 <div
                   className={["border border-neutral-800 bg-neutral-900", dimensionsClass].join(" ")}
                   style={{ backgroundImage: `url(${bg})`, backgroundSize: "cover", backgroundPosition: "center" }}
                 />
+                {left !== null && (
+                  <span
+                    className={[
+                      "absolute right-1 top-1 min-w-5 rounded-full px-1.5 text-center text-[11px] font-semibold tabular-nums shadow",
+                      exhausted ? "bg-neutral-700 text-neutral-300" : "bg-amber-400 text-black",
+                    ].join(" ")}
+                    title={`${left} pièce(s) restante(s)`}
+                  >
+                    {left}
+                  </span>
+                )}
               </div>
             );
           })}
@@ -0,0 +1,370 @@
+// src/components/PdfExportPanel.tsx
+import { useMemo, type ReactNode } from "react";
+import type { BoardSnapshot, PlacedItem } from "../views/BoardBuilder";
+import { getAnchorKeyFromCellKey } from "../utils/grid";
+import {
+  PAPER_SIZES,
+  PDF_SETTINGS_LIMITS,
+  TILE_BLEED_CM,
+  collectTilePieces,
+  describeBoardPdfPlan,
+  describeTileSheetPlan,
+  getSinglePageLayout,
+  getTileLayout,
+  hasTileSheetAppendix,
+  normalizePdfSettings,
+  planBoardPdf,
+  planTileSheets,
+  type BoardPdfPlan,
+  type PdfExportMode,
+  type PdfExportSettings,
+  type PdfPaper,
+  type TileSheetPlan,
+  type TileSheetSource,
+} from "../utils/pdfLayout";
+
+type Props = {
+  board: Pick<BoardSnapshot, "rows" | "cols" | "grid">;
+  settings: PdfExportSettings;
+  onChange: (settings: PdfExportSettings) => void;
+};
+
+const PAPER_OPTIONS: Array<{ value: PdfPaper; label: string }> = [
+  ...Object.entries(PAPER_SIZES).map(([value, p]) => ({ value: value as PdfPaper, label: p.label })),
+  { value: "custom", label: "Personnalisé" },
+];
+
+const ORIENTATION_OPTIONS: Array<{ value: PdfExportSettings["orientation"]; label: string }> = [
+  { value: "auto", label: "Auto" },
+  { value: "landscape", label: "Paysage" },
+  { value: "portrait", label: "Portrait" },
+];
+
+const MODE_OPTIONS: Array<{ value: PdfExportMode; label: string }> = [
+  { value: "board", label: "Plateau assemblé" },
+  { value: "tiles", label: "Tuiles à découper" },
+];
+
+// pages affichées au maximum dans l'aperçu
+const MAX_PREVIEW_PAGES = 12;
+
+/** Réglages papier / échelle / marges de l'export PDF, avec aperçu des pages. */
+export default function PdfExportPanel({ board, settings, onChange }: Props) {
+  const { rows, cols } = board;
+  const plan = useMemo(() => planBoardPdf(rows, cols, settings), [rows, cols, settings]);
+
+  const isTiles = settings.mode === "tiles";
+  const pieces = useMemo(() => (isTiles ? collectTilePieces(settings.tileSource, board) : []), [isTiles, settings.tileSource, board]);
+  const sheetPlan = useMemo(() => planTileSheets(pieces, settings), [pieces, settings]);
+
+  function update(patch: Partial<PdfExportSettings>) {
+    onChange(normalizePdfSettings({ ...settings, ...patch }));
+  }
+
+  const inputClass = "mt-1 w-full rounded-lg border border-black/15 bg-white px-2 py-1.5 text-sm text-black";
+
+  return (
+    <div className="rounded-xl border border-black/10 p-4 text-sm">
+      <h3 className="font-semibold text-black">Impression</h3>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {MODE_OPTIONS.map((o) => (
+          <button
+            key={o.value}
+            type="button"
+            onClick={() => update({ mode: o.value })}
+            aria-pressed={settings.mode === o.value}
+            className={[
+              "rounded-lg border px-3 py-1.5 text-sm",
+              settings.mode === o.value ? "border-black bg-black text-white" : "border-black/15 bg-white text-black hover:bg-black/5",
+            ].join(" ")}
+          >
+            {o.label}
+          </button>
+        ))}
+
+        {isTiles && (
+          <select
+            value={settings.tileSource}
+            onChange={(e) => update({ tileSource: e.target.value as TileSheetSource })}
+            aria-label="Tuiles à imprimer"
+            className="rounded-lg border border-black/15 bg-white px-2 py-1.5 text-sm text-black"
+          >
+            <option value="board">Tuiles posées sur le plateau</option>
+            <option value="palette">Toute la palette (une de chaque)</option>
+          </select>
+        )}
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <label className="text-black">
+          Papier
+          <select value={settings.paper} onChange={(e) => update({ paper: e.target.value as PdfPaper })} className={inputClass}>
+            {PAPER_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-black">
+          Orientation
+          <select
+            value={settings.orientation}
+            onChange={(e) => update({ orientation: e.target.value as PdfExportSettings["orientation"] })}
+            className={inputClass}
+          >
+            {ORIENTATION_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <NumberField label="Case (cm)" value={settings.cellCm} step={0.1} limits={PDF_SETTINGS_LIMITS.cellCm} onChange={(cellCm) => update({ cellCm })} />
+        <NumberField label="Marges (cm)" value={settings.marginCm} step={0.1} limits={PDF_SETTINGS_LIMITS.marginCm} onChange={(marginCm) => update({ marginCm })} />
+
+        {settings.paper === "custom" && (
+          <>
+            <NumberField
+              label="Largeur (cm)"
+              value={settings.customSize.w}
+              step={0.5}
+              limits={PDF_SETTINGS_LIMITS.customSide}
+              onChange={(w) => update({ customSize: { ...settings.customSize, w } })}
+            />
+            <NumberField
+              label="Hauteur (cm)"
+              value={settings.customSize.h}
+              step={0.5}
+              limits={PDF_SETTINGS_LIMITS.customSide}
+              onChange={(h) => update({ customSize: { ...settings.customSize, h } })}
+            />
+          </>
+        )}
+      </div>
+
+      <div className="mt-3 flex flex-col gap-1.5">
+        <Checkbox label="Économie d’encre : contours au lieu des aplats rouges" checked={settings.inkSaver} onChange={(inkSaver) => update({ inkSaver })} />
+        <Checkbox
+          label="Noir et blanc : tuiles en niveaux de gris, entrées école en noir et zones sûres hachurées"
+          checked={settings.greyscale}
+          onChange={(greyscale) => update({ greyscale })}
+        />
+        <Checkbox
+          label="Inventaire en annexe : pièces utilisées, overlays et entrées"
+          checked={isTiles ? hasTileSheetAppendix(settings) : settings.inventoryAppendix}
+          disabled={isTiles && settings.tileSource === "palette"}
+          onChange={(inventoryAppendix) => update({ inventoryAppendix })}
+        />
+      </div>
+
+      <p className="mt-3 text-black/70">{isTiles ? describeTileSheetPlan(sheetPlan, settings) : describeBoardPdfPlan(plan, settings)}</p>
+      {settings.cellCm !== 3 && <p className="mt-1 text-black/50">Les tuiles officielles mesurent 3 cm : à une autre taille, le plateau n’est plus à l’échelle du jeu.</p>}
+
+      {((!isTiles && plan.kind === "tiled" && plan.overflow) || (isTiles && sheetPlan.oversized > 0)) && (
+        <div className="mt-3 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-red-900">
+          {isTiles ? "Une tuile" : "Une case"} ne tient pas dans la zone imprimable : réduisez la taille des cases ou les marges.
+        </div>
+      )}
+
+      {isTiles ? <TileSheetPreview pieces={pieces} plan={sheetPlan} settings={settings} /> : <PdfPreview board={board} plan={plan} settings={settings} />}
+    </div>
+  );
+}
+
+function Checkbox({ label, checked, disabled, onChange }: { label: string; checked: boolean; disabled?: boolean; onChange: (v: boolean) => void }) {
+  return (
+    <label className={["flex items-center gap-2 text-black", disabled ? "opacity-40" : ""].join(" ")}>
+      <input type="checkbox" checked={checked} disabled={disabled} onChange={(e) => onChange(e.target.checked)} className="h-4 w-4" />
+      {label}
+    </label>
+  );
+}
+
+function NumberField({
+  label,
+  value,
+  step,
+  limits,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  step: number;
+  limits: { min: number; max: number };
+  onChange: (v: number) => void;
+}) {
+  return (
+    <label className="text-black">
+      {label}
+      <input
+        type="number"
+        value={value}
+        min={limits.min}
+        max={limits.max}
+        step={step}
+        onChange={(e) => {
+          const v = e.target.valueAsNumber;
+          if (Number.isFinite(v)) onChange(v);
+        }}
+        className="mt-1 w-full rounded-lg border border-black/15 bg-white px-2 py-1.5 text-sm text-black"
+      />
+    </label>
+  );
+}
+
+// couleurs de l'aperçu, selon le mode d'impression (mêmes teintes que le PDF)
+function getPreviewColors({ inkSaver, greyscale }: Pick<PdfExportSettings, "inkSaver" | "greyscale">) {
+  return {
+    frame: inkSaver ? "none" : greyscale ? "#6b6b6b" : "#ff2020",
+    frameStroke: inkSaver ? "#787878" : "none",
+    cell: inkSaver ? "#ffffff" : greyscale ? "#3f3f3f" : "#961212",
+    cellStroke: inkSaver ? "#787878" : "#ffffff",
+    tile: greyscale ? "#2a2a2a" : "#5c0b0b",
+    road: greyscale ? "#555555" : "#475569",
+    name: inkSaver ? "none" : greyscale ? "#b5b5b5" : "#f5ba12",
+  };
+}
+
+/**
+ * Pages du PDF dessinées en SVG, en centimètres (viewBox) : marges, cases occupées,
+ * bandes de recouvrement. Même géométrie que le générateur.
+ */
+function PdfPreview({ board, plan, settings }: { board: Props["board"]; plan: BoardPdfPlan; settings: PdfExportSettings }) {
+  const { rows, cols, grid } = board;
+  const { page } = plan;
+  const cell = settings.cellCm;
+  const m = settings.marginCm;
+
+  const colors = getPreviewColors(settings);
+  const occupied = (r: number, c: number) => !!getAnchorKeyFromCellKey(`${r},${c}`, grid);
+
+  function renderCells(ox: number, oy: number, range: { r0: number; r1: number; c0: number; c1: number }) {
+    const out: ReactNode[] = [];
+    for (let r = range.r0; r < range.r1; r++) {
+      for (let c = range.c0; c < range.c1; c++) {
+        out.push(
+          <rect
+            key={`${r},${c}`}
+            x={ox + c * cell}
+            y={oy + r * cell}
+            width={cell}
+            height={cell}
+            fill={occupied(r, c) ? colors.tile : colors.cell}
+            stroke={colors.cellStroke}
+            strokeOpacity={0.35}
+            strokeWidth={0.03}
+          />
+        );
+      }
+    }
+    return out;
+  }
+
+  const margins = <rect x={m} y={m} width={Math.max(0, page.w - 2 * m)} height={Math.max(0, page.h - 2 * m)} fill="none" stroke="#2563eb" strokeDasharray="0.25 0.2" strokeWidth={0.04} />;
+
+  if (plan.kind === "single") {
+    const l = getSinglePageLayout(rows, cols, page, settings);
+    return (
+      <PreviewPages>
+        <PreviewPage page={page} label="Page 1">
+          <rect x={l.frame.x} y={l.frame.y} width={l.frame.w} height={l.frame.h} rx={0.35} fill={colors.frame} stroke={colors.frameStroke} strokeWidth={0.04} />
+          {renderCells(l.startX, l.startY, { r0: 0, r1: rows, c0: 0, c1: cols })}
+          <rect x={l.nameBox.x} y={l.nameBox.y} width={l.nameBox.w} height={l.nameBox.h} fill={colors.name} stroke="#000" strokeWidth={0.04} />
+          {margins}
+        </PreviewPage>
+      </PreviewPages>
+    );
+  }
+
+  const shown = plan.tiles.slice(0, MAX_PREVIEW_PAGES);
+
+  return (
+    <PreviewPages more={plan.tiles.length - shown.length}>
+      {shown.map((tile) => {
+        const l = getTileLayout(tile, rows, cols, settings, 0);
+        return (
+          <PreviewPage key={tile.index} page={page} label={`Feuille ${tile.index}`}>
+            <clipPath id={`pdf-preview-clip-${tile.index}`}>
+              <rect x={l.visible.x} y={l.visible.y} width={l.visible.w} height={l.visible.h} />
+            </clipPath>
+            <g clipPath={`url(#pdf-preview-clip-${tile.index})`}>
+              {renderCells(l.ox, l.oy, {
+                r0: Math.max(0, tile.r0 - 1),
+                r1: Math.min(rows, tile.r1 + 1),
+                c0: Math.max(0, tile.c0 - 1),
+                c1: Math.min(cols, tile.c1 + 1),
+              })}
+            </g>
+            {/* bandes de recouvrement, voilées comme dans le PDF */}
+            <rect x={l.visible.x} y={l.visible.y} width={l.visible.w} height={l.visible.h} fill="#ffffff" fillOpacity={0.55} />
+            <g clipPath={`url(#pdf-preview-clip-${tile.index})`}>{renderCells(l.ox, l.oy, tile)}</g>
+            {margins}
+          </PreviewPage>
+        );
+      })}
+    </PreviewPages>
+  );
+}
+
+/** Planches de tuiles : chaque pièce avec son fond perdu (pointillés = trait de coupe). */
+function TileSheetPreview({ pieces, plan, settings }: { pieces: PlacedItem[]; plan: TileSheetPlan; settings: PdfExportSettings }) {
+  const { page } = plan;
+  const m = settings.marginCm;
+  const colors = getPreviewColors(settings);
+  const shown = plan.sheets.slice(0, MAX_PREVIEW_PAGES);
+
+  return (
+    <PreviewPages more={plan.sheets.length - shown.length}>
+      {shown.map((sheet, i) => (
+        <PreviewPage key={i} page={page} label={`Planche ${i + 1} · ${sheet.length}`}>
+          {sheet.map((pl) => (
+            <g key={pl.piece}>
+              <rect
+                x={pl.x - TILE_BLEED_CM}
+                y={pl.y - TILE_BLEED_CM}
+                width={pl.w + 2 * TILE_BLEED_CM}
+                height={pl.h + 2 * TILE_BLEED_CM}
+                fill={pieces[pl.piece]?.tileType === "road" ? colors.road : colors.tile}
+              />
+              <rect x={pl.x} y={pl.y} width={pl.w} height={pl.h} fill="none" stroke="#ffffff" strokeDasharray="0.2 0.15" strokeWidth={0.05} />
+            </g>
+          ))}
+          <rect x={m} y={m} width={Math.max(0, page.w - 2 * m)} height={Math.max(0, page.h - 2 * m)} fill="none" stroke="#2563eb" strokeDasharray="0.25 0.2" strokeWidth={0.04} />
+        </PreviewPage>
+      ))}
+    </PreviewPages>
+  );
+}
+
+function PreviewPages({ children, more = 0 }: { children: ReactNode; more?: number }) {
+  return (
+    <div className="mt-3 flex max-h-64 flex-wrap items-start gap-3 overflow-auto rounded-lg bg-black/5 p-3">
+      {children}
+      {more > 0 && <div className="self-center text-xs text-black/60">+ {more} page(s)</div>}
+    </div>
+  );
+}
+
+function PreviewPage({ page, label, children }: { page: { w: number; h: number }; label: string; children: ReactNode }) {
+  // 4 px par cm : une A4 fait environ 84 × 119 px
+  const PX_PER_CM = 4;
+  return (
+    <figure className="m-0">
+      <svg
+        viewBox={`0 0 ${page.w} ${page.h}`}
+        width={page.w * PX_PER_CM}
+        height={page.h * PX_PER_CM}
+        className="block bg-white shadow-[0_1px_3px_rgba(0,0,0,0.3)]"
+        role="img"
+        aria-label={label}
+      >
+        {children}
+      </svg>
+      <figcaption className="mt-1 text-center text-[11px] text-black/60">{label}</figcaption>
+    </figure>
+  );
+}
@@ -1,5 +1,11 @@
 // src/components/PrintModal.tsx
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { validateBoard } from "../utils/boardRules";
+import { copyText } from "../utils/clipboard";
+import type { PdfExportSettings } from "../utils/pdfLayout";
+import type { BoardSnapshot } from "../views/BoardBuilder";
+import PdfExportPanel from "./PdfExportPanel";
+import RuleIssuesBox from "./RuleIssuesBox";
 
 type Props = {
   isOpen: boolean;
@@ -8,13 +14,40 @@ type Props = {
   boardName: string; // nom existant, lecture seule
   onPrint: () => void;
 
-  onShare?: () => void; // optionnel
+  // réglages du PDF (papier, échelle, marges) et plateau pour l'aperçu
+  board: Pick<BoardSnapshot, "rows" | "cols" | "grid">;
+  pdfSettings: PdfExportSettings;
+  onPdfSettingsChange: (settings: PdfExportSettings) => void;
+
+  // publie la carte et renvoie le lien /community/:id
+  onShare?: (title: string) => Promise<string>; // optionnel
   shareDisabled?: boolean;
+  shareBlockers?: string[]; // raisons pour lesquelles la carte ne peut pas être publiée
 
   title?: string;
 };
 
-export default function PrintModal({ isOpen, onClose, onPrint, onShare, shareDisabled, title = "Avant d'exporter" }: Props) {
+type PublishState = { status: "idle" } | { status: "publishing" } | { status: "done"; link: string } | { status: "error"; message: string };
+
+const MAX_TITLE_LENGTH = 80;
+
+export default function PrintModal({
+  isOpen,
+  onClose,
+  boardName,
+  onPrint,
+  board,
+  pdfSettings,
+  onPdfSettingsChange,
+  onShare,
+  shareDisabled,
+  shareBlockers = [],
+  title = "Avant d'exporter",
+}: Props) {
+  const [publishTitle, setPublishTitle] = useState(boardName);
+  const [publish, setPublish] = useState<PublishState>({ status: "idle" });
+  const [copied, setCopied] = useState(false);
+
   // fermeture avec ESC
   useEffect(() => {
     if (!isOpen) return;
@@ -27,30 +60,105 @@ export default function PrintModal({ isOpen, onClose, onPrint, onShare, shareDis
 
   if (!isOpen) return null;
 
+  const validation = validateBoard(board);
+  const trimmedTitle = publishTitle.trim();
+  const isPublishing = publish.status === "publishing";
+  const canPublish = !shareDisabled && shareBlockers.length === 0 && !!trimmedTitle && !isPublishing && publish.status !== "done";
+
+  async function handleShare() {
+    if (!onShare || !canPublish) return;
+    setPublish({ status: "publishing" });
+    try {
+      setPublish({ status: "done", link: await onShare(trimmedTitle) });
+    } catch (e) {
+      setPublish({ status: "error", message: e instanceof Error ? e.message : "La publication a échoué." });
+    }
+  }
+
   return (
     <div className="fixed inset-0 z-[1000] flex items-center justify-center" role="dialog" aria-modal="true">
       {/* Backdrop */}
       <button className="absolute inset-0 bg-black/60" onClick={onClose} aria-label="Fermer" />
 
       {/* Modal */}
-      <div className="relative w-[min(720px,92vw)] rounded-2xl bg-white shadow-xl">
+      <div className="relative flex max-h-[92vh] w-[min(720px,92vw)] flex-col rounded-2xl bg-white shadow-xl">
         <div className="border-b border-black/10 p-5">
           <h2 className="text-lg font-semibold text-black">{title}</h2>
           <p className="mt-1 text-sm text-black/70">Avant d’exporter, vous pouvez choisir de partager votre carte avec la communauté.</p>
         </div>
 
-        <div className="p-5 space-y-4">
+        <div className="min-h-0 flex-1 space-y-4 overflow-y-auto p-5">
+          <RuleIssuesBox validation={validation} context="l’export" />
+
           <div className="rounded-xl border border-black/10 bg-black/5 p-4">
             <h3 className="text-sm font-semibold text-black">Partage communautaire</h3>
             <p className="mt-1 text-sm text-black/70">Le partage permet aux autres joueurs de découvrir et réutiliser votre carte.</p>
 
+            {onShare && (
+              <label className="mt-3 block text-sm text-black">
+                Titre de la publication
+                <input
+                  value={publishTitle}
+                  maxLength={MAX_TITLE_LENGTH}
+                  disabled={isPublishing || publish.status === "done"}
+                  onChange={(e) => setPublishTitle(e.target.value)}
+                  placeholder="Ex : Quartier de l'école"
+                  className="mt-1 w-full rounded-lg border border-black/15 bg-white px-3 py-2 text-black disabled:opacity-60"
+                />
+              </label>
+            )}
+
             <div className="mt-3 rounded-lg border border-black/10 bg-white p-3 text-sm">
               <p className="text-black">
-                Donnée utilisée :<span className="font-medium"> uniquement le nom de la carte</span>.
+                Données envoyées :<span className="font-medium"> le titre, le nom de la carte, la disposition des tuiles et une miniature</span>.
               </p>
               <p className="mt-1 text-black/60">Aucune information personnelle n’est collectée.</p>
             </div>
+
+            {shareBlockers.length > 0 && (
+              <div className="mt-3 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-900">
+                <p className="font-semibold">Cette carte ne peut pas être publiée :</p>
+                <ul className="mt-1 list-disc pl-5">
+                  {shareBlockers.map((msg) => (
+                    <li key={msg}>{msg}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {publish.status === "publishing" && <p className="mt-3 text-sm text-black/70">Publication en cours…</p>}
+
+            {publish.status === "error" && (
+              <div className="mt-3 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-900">{publish.message}</div>
+            )}
+
+            {publish.status === "done" && (
+              <div className="mt-3 rounded-lg border border-emerald-600/30 bg-emerald-500/10 p-3 text-sm text-emerald-950">
+                <p className="font-semibold">Carte publiée !</p>
+                <div className="mt-2 flex flex-col gap-2 sm:flex-row sm:items-center">
+                  <input readOnly value={publish.link} onFocus={(e) => e.target.select()} className="min-w-0 flex-1 rounded-lg border border-black/15 bg-white px-2 py-1 text-xs text-black" />
+                  <button
+                    onClick={async () => {
+                      try {
+                        await copyText(publish.link);
+                        setCopied(true);
+                      } catch {
+                        window.prompt("Copie impossible. Copie ce lien à la main :", publish.link);
+                      }
+                    }}
+                    className="rounded-lg bg-black px-3 py-1.5 text-xs text-white hover:bg-black/90"
+                  >
+                    {copied ? "Copié" : "Copier le lien"}
+                  </button>
+                  <a href={publish.link} target="_blank" rel="noreferrer" className="rounded-lg border border-black/15 px-3 py-1.5 text-center text-xs text-black hover:bg-black/5">
+                    Voir la page
+                  </a>
+                </div>
+              </div>
+            )}
           </div>
+
+          <PdfExportPanel board={board} settings={pdfSettings} onChange={onPdfSettingsChange} />
         </div>
 
         <div className="flex flex-col-reverse gap-2 border-t border-black/10 p-5 sm:flex-row sm:justify-between">
@@ -61,14 +169,14 @@ export default function PrintModal({ isOpen, onClose, onPrint, onShare, shareDis
           <div className="flex flex-col gap-2 sm:flex-row">
             {onShare && (
               <button
-                onClick={onShare}
-                disabled={shareDisabled}
+                onClick={() => void handleShare()}
+                disabled={!canPublish}
                 className={[
                   "rounded-xl px-4 py-2 text-sm font-medium",
-                  shareDisabled ? "cursor-not-allowed bg-black/10 text-black/40" : "bg-black text-white hover:bg-black/90",
+                  !canPublish ? "cursor-not-allowed bg-black/10 text-black/40" : "bg-black text-white hover:bg-black/90",
                 ].join(" ")}
               >
-                Partager
+                {isPublishing ? "Publication…" : publish.status === "done" ? "Publiée" : publish.status === "error" ? "Réessayer" : "Partager"}
               </button>
             )}
 
@@ -0,0 +1,64 @@
+// src/components/ReachabilityPanel.tsx
+import type { Cell } from "../views/BoardBuilder";
+import { describeTrip, type ReachabilityAnalysis, type SafePlaceTrip } from "../utils/reachability";
+
+type Props = {
+  analysis: ReachabilityAnalysis;
+  grid: Record<string, Cell>;
+  onSelect: (anchorKey: string) => void;
+  onClose: () => void;
+};
+
+// Résumé de l'analyse des trajets, affiché par-dessus la grille avec la carte de chaleur.
+export default function ReachabilityPanel({ analysis, grid, onSelect, onClose }: Props) {
+  const { schools, trips, unreachable, shortest, longest } = analysis;
+
+  const tripButton = (trip: SafePlaceTrip, tone: string) => (
+    <button key={trip.anchor} className={["block w-full truncate rounded-md px-2 py-1 text-left hover:bg-neutral-800", tone].join(" ")} onClick={() => onSelect(trip.anchor)}>
+      {describeTrip(trip, grid)}
+    </button>
+  );
+
+  return (
+    <div className="absolute bottom-6 left-6 z-[60] w-80 rounded-xl border border-neutral-800 bg-neutral-900/95 p-3 text-sm text-neutral-200 shadow-xl">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold">Analyse des trajets</h2>
+        <button className="rounded-md px-2 py-0.5 text-neutral-400 hover:bg-neutral-800 hover:text-neutral-100" onClick={onClose} aria-label="Fermer l'analyse">
+          ✕
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-neutral-400">Nombre de routes parcourues depuis l’école la plus proche (vert : proche, rouge : loin).</p>
+
+      {schools === 0 ? (
+        <p className="mt-3 text-amber-200">Placez une école avec une entrée sur une route pour lancer l’analyse.</p>
+      ) : trips.length === 0 ? (
+        <p className="mt-3 text-neutral-300">Aucune zone sûre sur le plateau.</p>
+      ) : (
+        <div className="mt-3 space-y-2">
+          {shortest && (
+            <div>
+              <div className="text-xs text-neutral-400">Trajet le plus court</div>
+              {tripButton(shortest, "text-emerald-300")}
+            </div>
+          )}
+          {longest && longest !== shortest && (
+            <div>
+              <div className="text-xs text-neutral-400">Trajet le plus long</div>
+              {tripButton(longest, "text-red-300")}
+            </div>
+          )}
+          {unreachable.length > 0 && (
+            <div>
+              <div className="text-xs text-neutral-400">Zones sûres injoignables ({unreachable.length})</div>
+              <div className="max-h-32 overflow-y-auto">{unreachable.map((t) => tripButton(t, "text-amber-200"))}</div>
+            </div>
+          )}
+          <details>
+            <summary className="cursor-pointer text-xs text-neutral-400">Tous les trajets ({trips.length})</summary>
+            <div className="mt-1 max-h-40 overflow-y-auto">{trips.map((t) => tripButton(t, ""))}</div>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
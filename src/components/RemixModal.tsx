@@ -0,0 +1,107 @@
+// src/components/RemixModal.tsx
+import { useEffect, useState } from "react";
+import type { CommunityCreation } from "../utils/communityApi";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+
+  creation: CommunityCreation;
+  isDirty: boolean; // le plateau en cours a des modifications non enregistrées
+
+  // saveCurrentFirst : enregistrer le plateau en cours dans la bibliothèque avant de l'ouvrir
+  onOpen: (saveCurrentFirst: boolean) => Promise<void>;
+};
+
+export default function RemixModal({ isOpen, onClose, creation, isDirty, onOpen }: Props) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // fermeture avec ESC
+  useEffect(() => {
+    if (!isOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  async function run(saveCurrentFirst: boolean) {
+    setBusy(true);
+    setError(null);
+    try {
+      await onOpen(saveCurrentFirst);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Ouverture impossible.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center" role="dialog" aria-modal="true">
+      {/* Backdrop */}
+      <button className="absolute inset-0 bg-black/60" onClick={onClose} aria-label="Fermer" />
+
+      {/* Modal */}
+      <div className="relative w-[min(560px,92vw)] rounded-2xl bg-white shadow-xl">
+        <div className="border-b border-black/10 p-5">
+          <h2 className="text-lg font-semibold text-black">Ouvrir une création de la communauté</h2>
+          <p className="mt-1 text-sm text-black/70">Une copie sera ajoutée à « Mes plateaux » : l’original n’est pas modifié.</p>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="flex items-center gap-4 rounded-xl border border-black/10 p-3">
+            <div className="h-20 w-28 shrink-0 overflow-hidden rounded-lg bg-[#961212]">
+              {creation.thumbnail ? <img src={creation.thumbnail} alt="" className="h-full w-full object-contain" /> : null}
+            </div>
+            <div className="min-w-0">
+              <div className="truncate text-sm font-semibold text-black">{creation.title}</div>
+              <div className="mt-1 text-xs text-black/60">
+                {creation.board.boardName} · {creation.board.rows}×{creation.board.cols} · {creation.board.items.length} tuile(s)
+              </div>
+            </div>
+          </div>
+
+          {isDirty && (
+            <div className="rounded-xl border border-amber-500/40 bg-amber-500/10 p-4 text-sm text-amber-950">
+              Le plateau en cours a des modifications non enregistrées. Vous pouvez l’enregistrer dans « Mes plateaux » avant d’ouvrir cette création.
+            </div>
+          )}
+
+          {error && <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-900">{error}</div>}
+        </div>
+
+        <div className="flex flex-col-reverse gap-2 border-t border-black/10 p-5 sm:flex-row sm:justify-between">
+          <button onClick={onClose} disabled={busy} className="rounded-xl border border-black/15 px-4 py-2 text-sm text-black hover:bg-black/5 disabled:opacity-40">
+            Annuler
+          </button>
+
+          <div className="flex flex-col gap-2 sm:flex-row">
+            {isDirty && (
+              <button
+                onClick={() => void run(false)}
+                disabled={busy}
+                className="rounded-xl border border-black/15 bg-white px-4 py-2 text-sm font-medium text-black hover:bg-black/5 disabled:opacity-40"
+              >
+                Ouvrir sans enregistrer
+              </button>
+            )}
+
+            <button
+              onClick={() => void run(isDirty)}
+              disabled={busy}
+              className="rounded-xl bg-black px-4 py-2 text-sm font-medium text-white hover:bg-black/90 disabled:bg-black/10 disabled:text-black/40"
+            >
+              {busy ? "Ouverture…" : isDirty ? "Enregistrer puis ouvrir" : "Ouvrir"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+// src/components/RuleIssuesBox.tsx
+import { describeValidation, type BoardValidation } from "../utils/boardRules";
+
+type Props = {
+  validation: BoardValidation;
+  context: string; // ex. "l’export" : complète « avant … »
+};
+
+// Rappel des règles non respectées dans les fenêtres d'export : n'empêche pas de télécharger.
+export default function RuleIssuesBox({ validation, context }: Props) {
+  if (validation.issues.length === 0) return null;
+
+  const hasErrors = validation.errors > 0;
+
+  return (
+    <div
+      className={[
+        "rounded-xl border p-4 text-sm",
+        hasErrors ? "border-red-500/30 bg-red-500/10 text-red-900" : "border-amber-500/40 bg-amber-500/10 text-amber-950",
+      ].join(" ")}
+    >
+      <p className="font-semibold">
+        Règles du plateau : {describeValidation(validation)}. À vérifier avant {context}.
+      </p>
+      <ul className="mt-1 list-disc pl-5">
+        {validation.issues.map((issue) => (
+          <li key={issue.id}>
+            {issue.severity === "error" ? "Erreur" : "Avertissement"} : {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+// src/components/RulesBadge.tsx
+import { useEffect, useState } from "react";
+import { describeValidation, type BoardValidation, type RuleIssue } from "../utils/boardRules";
+
+type Props = {
+  validation: BoardValidation;
+  onSelectIssue: (issue: RuleIssue) => void; // sélectionne la première case concernée
+};
+
+// Badge d'état des règles dans l'en-tête ; un clic déroule la liste des problèmes.
+export default function RulesBadge({ validation, onSelectIssue }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { errors, warnings, issues } = validation;
+
+  // fermeture avec ESC
+  useEffect(() => {
+    if (!isOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setIsOpen(false);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isOpen]);
+
+  const tone = errors
+    ? "bg-red-500/20 text-red-200 hover:bg-red-500/30"
+    : warnings
+      ? "bg-amber-500/20 text-amber-200 hover:bg-amber-500/30"
+      : "bg-emerald-500/15 text-emerald-200 hover:bg-emerald-500/25";
+
+  return (
+    <div className="relative">
+      <button
+        className={["rounded-xl px-3 py-2 text-sm", tone].join(" ")}
+        onClick={() => setIsOpen((v) => !v)}
+        aria-expanded={isOpen}
+        title="Vérification des règles du plateau"
+      >
+        {errors ? "✕" : warnings ? "⚠" : "✓"} {describeValidation(validation)}
+      </button>
+
+      {isOpen && (
+        <>
+          <button className="fixed inset-0 z-40 cursor-default" onClick={() => setIsOpen(false)} aria-label="Fermer" />
+          <div className="absolute right-0 z-50 mt-2 w-80 rounded-xl border border-neutral-800 bg-neutral-900 p-3 text-sm shadow-xl">
+            {issues.length === 0 ? (
+              <p className="text-neutral-300">Aucun problème détecté : le plateau respecte les règles.</p>
+            ) : (
+              <ul className="max-h-80 space-y-1 overflow-y-auto">
+                {issues.map((issue) => (
+                  <li key={issue.id}>
+                    <button
+                      className="flex w-full items-start gap-2 rounded-lg px-2 py-1.5 text-left hover:bg-neutral-800 disabled:cursor-default disabled:hover:bg-transparent"
+                      disabled={issue.cells.length === 0}
+                      onClick={() => {
+                        onSelectIssue(issue);
+                        setIsOpen(false);
+                      }}
+                    >
+                      <span className={issue.severity === "error" ? "text-red-400" : "text-amber-300"}>{issue.severity === "error" ? "✕" : "⚠"}</span>
+                      <span className="text-neutral-200">{issue.message}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
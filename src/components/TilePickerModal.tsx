@@ -0,0 +1,133 @@
+// src/components/TilePickerModal.tsx
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { PaletteItem } from "../views/BoardBuilder";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+
+  palette: PaletteItem[];
+  getTileUrl: (type: string) => string;
+  remaining: Record<string, number | null>; // stock restant (null = pas de limite)
+
+  cellLabel: string; // ex. "ligne 2, colonne 3"
+  onPick: (paletteType: string) => void;
+};
+
+function normalize(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+// Choix d'une tuile au clavier : recherche, flèches haut / bas, Entrée pour poser.
+export default function TilePickerModal({ isOpen, onClose, palette, getTileUrl, remaining, cellLabel, onPick }: Props) {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement | null>(null);
+
+  const results = useMemo(() => {
+    const q = normalize(query.trim());
+    return palette.filter((p) => !q || normalize(`${p.name} ${p.type}`).includes(q));
+  }, [palette, query]);
+
+  // fermeture avec ESC
+  useEffect(() => {
+    if (!isOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isOpen, onClose]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  if (!isOpen) return null;
+
+  const isExhausted = (p: PaletteItem) => remaining[p.type] === 0;
+
+  function pick(p: PaletteItem | undefined) {
+    if (!p || isExhausted(p)) return;
+    onPick(p.type);
+  }
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center" role="dialog" aria-modal="true" aria-labelledby="tile-picker-title">
+      {/* Backdrop */}
+      <button className="absolute inset-0 bg-black/60" onClick={onClose} aria-label="Fermer" />
+
+      {/* Modal */}
+      <div className="relative flex max-h-[80vh] w-[min(480px,92vw)] flex-col rounded-2xl bg-white shadow-xl">
+        <div className="border-b border-black/10 p-5">
+          <h2 id="tile-picker-title" className="text-lg font-semibold text-black">
+            Poser une tuile
+          </h2>
+          <p className="mt-1 text-sm text-black/70">Case {cellLabel}. Flèches pour choisir, Entrée pour poser.</p>
+
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActive(0);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "ArrowDown") {
+                e.preventDefault();
+                setActive((i) => Math.min(results.length - 1, i + 1));
+              } else if (e.key === "ArrowUp") {
+                e.preventDefault();
+                setActive((i) => Math.max(0, i - 1));
+              } else if (e.key === "Enter") {
+                e.preventDefault();
+                pick(results[active]);
+              }
+            }}
+            placeholder="Rechercher : virage, école, parc…"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="tile-picker-list"
+            aria-activedescendant={results[active] ? `tile-picker-${results[active].type}` : undefined}
+            className="mt-3 w-full rounded-lg border border-black/15 px-3 py-2 text-sm text-black"
+          />
+        </div>
+
+        <ul ref={listRef} id="tile-picker-list" role="listbox" aria-label="Tuiles" className="min-h-0 flex-1 overflow-y-auto p-2">
+          {results.length === 0 && <li className="px-3 py-4 text-center text-sm text-black/60">Aucune tuile ne correspond.</li>}
+          {results.map((p, i) => {
+            const left = remaining[p.type] ?? null;
+            const exhausted = isExhausted(p);
+            return (
+              <li
+                key={p.type}
+                id={`tile-picker-${p.type}`}
+                data-index={i}
+                role="option"
+                aria-selected={i === active}
+                aria-disabled={exhausted || undefined}
+                onMouseEnter={() => setActive(i)}
+                onClick={() => pick(p)}
+                className={[
+                  "flex cursor-pointer items-center gap-3 rounded-lg px-3 py-2 text-sm text-black",
+                  i === active ? "bg-black/10" : "",
+                  exhausted ? "cursor-not-allowed opacity-40" : "",
+                ].join(" ")}
+              >
+                <img src={getTileUrl(p.type)} alt="" className="h-8 w-8 shrink-0 rounded object-cover" />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{p.name}</div>
+                  <div className="truncate font-mono text-[11px] text-black/50">{p.type}</div>
+                </div>
+                {left !== null && <span className="text-xs tabular-nums text-black/60">{exhausted ? "épuisée" : `${left} restante(s)`}</span>}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
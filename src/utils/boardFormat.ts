@@ -0,0 +1,207 @@
+import type { BoardSnapshot, Cell, PlacedItem, PlacedOptions, TileRotation } from "../views/BoardBuilder";
+import { BOARD_SIZE_LIMITS, clampBoardSize } from "./boardSize";
+import { canPlaceAt, getTileRotation, isAnchor, makeEmptyGrid, normalizeOptions, uid, writeItemAtAnchor } from "./grid";
+import { findPaletteItem } from "./palette";
+
+/**
+ * Format de fichier d'un plateau (export .json, stockage local, partage).
+ *
+ * {
+ *   "schema": "dtts-board",
+ *   "version": 2,
+ *   "rows": 6,
+ *   "cols": 8,
+ *   "boardName": "Quartier #42",
+ *   "items": [
+ *     { "type": "school-2x1", "anchor": { "r": 0, "c": 3 }, "rotation": 90, "options": { "topSegments": [true] } }
+ *   ]
+ * }
+ *
+ * - `type` : identifiant de la palette (ex: "curve_road-1x1")
+ * - `anchor` : cellule en haut à gauche du footprint, après rotation
+ * - `rotation` : 0 | 90 | 180 | 270 (sens horaire)
+ * - `options` : options de la tuile (overlays route, entrées) telles qu'affichées, sans la rotation
+ * - `remixOf` (optionnel) : id de la création communautaire dont le plateau est tiré
+ *
+ * Version 1 = l'ancien `Record<string, Cell>` brut sauvegardé sous `dtts_boardbuilder_grid_v1`.
+ */
+export const BOARD_SCHEMA = "dtts-board";
+export const BOARD_FORMAT_VERSION = 2;
+
+// Plateau courant de l'éditeur, enregistré à ce format ; relu par la visionneuse
+export const LS_BOARD_KEY = "dtts_boardbuilder_board_v2";
+
+export type BoardDocumentItem = {
+  type: string;
+  anchor: { r: number; c: number };
+  rotation: TileRotation;
+  options: Omit<PlacedOptions, "rotation">;
+};
+
+export type BoardDocument = {
+  schema: typeof BOARD_SCHEMA;
+  version: typeof BOARD_FORMAT_VERSION;
+  rows: number;
+  cols: number;
+  boardName: string;
+  items: BoardDocumentItem[];
+  remixOf?: string;
+};
+
+function withoutRotation(options: PlacedOptions): Omit<PlacedOptions, "rotation"> {
+  const out = { ...options };
+  delete out.rotation;
+  return out;
+}
+
+export function snapshotToDocument({ rows, cols, grid, boardName, remixOf }: BoardSnapshot): BoardDocument {
+  const items: BoardDocumentItem[] = [];
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cell = grid[`${r},${c}`];
+      if (!cell || !isAnchor(cell)) continue;
+
+      items.push({ type: cell.item.type, anchor: { r, c }, rotation: getTileRotation(cell.item), options: withoutRotation(cell.item.options) });
+    }
+  }
+
+  const doc: BoardDocument = { schema: BOARD_SCHEMA, version: BOARD_FORMAT_VERSION, rows, cols, boardName, items };
+  if (remixOf) doc.remixOf = remixOf;
+  return doc;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function readSize(raw: Record<string, unknown>) {
+  const { rows, cols } = raw;
+  const inRange = (v: unknown, lim: { min: number; max: number }) => typeof v === "number" && Number.isInteger(v) && v >= lim.min && v <= lim.max;
+
+  if (!inRange(rows, BOARD_SIZE_LIMITS.rows)) {
+    throw new Error(`Nombre de lignes invalide (${String(rows)}) : attendu entre ${BOARD_SIZE_LIMITS.rows.min} et ${BOARD_SIZE_LIMITS.rows.max}.`);
+  }
+  if (!inRange(cols, BOARD_SIZE_LIMITS.cols)) {
+    throw new Error(`Nombre de colonnes invalide (${String(cols)}) : attendu entre ${BOARD_SIZE_LIMITS.cols.min} et ${BOARD_SIZE_LIMITS.cols.max}.`);
+  }
+  return { rows: rows as number, cols: cols as number };
+}
+
+function documentItemToPlaced(raw: unknown, index: number): { anchorKey: string; item: PlacedItem } {
+  const label = `élément n°${index + 1}`;
+  if (!isObject(raw)) throw new Error(`Élément invalide (${label}).`);
+
+  const type = raw.type;
+  if (typeof type !== "string") throw new Error(`Type de tuile manquant (${label}).`);
+
+  const p = findPaletteItem(type);
+  if (!p) throw new Error(`Type de tuile inconnu : "${type}" (${label}).`);
+
+  const anchor = raw.anchor;
+  if (!isObject(anchor) || !Number.isInteger(anchor.r) || !Number.isInteger(anchor.c)) {
+    throw new Error(`Position invalide pour "${type}" (${label}).`);
+  }
+
+  const rotation = raw.rotation ?? 0;
+  if (rotation !== 0 && rotation !== 90 && rotation !== 180 && rotation !== 270) {
+    throw new Error(`Rotation invalide (${String(rotation)}) pour "${type}" (${label}).`);
+  }
+
+  const options = isObject(raw.options) ? (raw.options as PlacedOptions) : {};
+  const baseSize = p.size ?? { w: 1, h: 1 };
+
+  const item = normalizeOptions({
+    id: uid(),
+    type: p.type,
+    tileType: p.tileType,
+    name: p.name,
+    colorClass: p.colorClass,
+    baseSize,
+    size: baseSize,
+    options: { ...options, rotation },
+  });
+
+  return { anchorKey: `${anchor.r},${anchor.c}`, item };
+}
+
+/**
+ * Valide un document (v2) et reconstruit la grille.
+ * Lève une Error avec un message lisible si le document est incorrect.
+ */
+export function documentToSnapshot(raw: unknown): BoardSnapshot {
+  if (!isObject(raw)) throw new Error("Le fichier ne contient pas de plateau.");
+  if (raw.schema !== BOARD_SCHEMA) throw new Error("Ce fichier n'est pas un plateau DTTS Builder.");
+  if (raw.version !== BOARD_FORMAT_VERSION) {
+    throw new Error(`Version de fichier non prise en charge (${String(raw.version)}) : seule la version ${BOARD_FORMAT_VERSION} est connue.`);
+  }
+
+  const { rows, cols } = readSize(raw);
+  if (!Array.isArray(raw.items)) throw new Error("Liste des tuiles manquante.");
+
+  const grid = makeEmptyGrid(rows, cols);
+
+  raw.items.forEach((entry, i) => {
+    const { anchorKey, item } = documentItemToPlaced(entry, i);
+    if (!canPlaceAt(anchorKey, item, grid, rows, cols)) {
+      throw new Error(`"${item.name}" (élément n°${i + 1}) dépasse du plateau ou chevauche une autre tuile.`);
+    }
+    writeItemAtAnchor(grid, anchorKey, item);
+  });
+
+  const snapshot: BoardSnapshot = { rows, cols, grid, boardName: typeof raw.boardName === "string" ? raw.boardName : "" };
+  if (typeof raw.remixOf === "string" && raw.remixOf) snapshot.remixOf = raw.remixOf;
+  return snapshot;
+}
+
+/**
+ * Migration v1 → v2 : on relit l'ancienne grille brute en ne gardant que les ancres
+ * dont le type existe encore dans la palette.
+ */
+export function migrateV1Grid(grid: Record<string, Cell>, boardName: string, size?: { rows?: number; cols?: number }): BoardDocument {
+  const { rows, cols } = clampBoardSize(size);
+  const items: BoardDocumentItem[] = [];
+
+  for (const [key, cell] of Object.entries(grid ?? {})) {
+    if (!cell || !isAnchor(cell) || !findPaletteItem(cell.item.type)) continue;
+
+    const [r, c] = key.split(",").map(Number);
+    if (!Number.isInteger(r) || !Number.isInteger(c)) continue;
+
+    items.push({ type: cell.item.type, anchor: { r, c }, rotation: getTileRotation(cell.item), options: withoutRotation(cell.item.options ?? {}) });
+  }
+
+  // on écarte ce qui ne tient plus (hors plateau, chevauchement) plutôt que de rejeter toute la sauvegarde
+  const kept = makeEmptyGrid(rows, cols);
+  const valid = items.filter((entry, i) => {
+    try {
+      const { anchorKey, item } = documentItemToPlaced(entry, i);
+      if (!canPlaceAt(anchorKey, item, kept, rows, cols)) return false;
+      writeItemAtAnchor(kept, anchorKey, item);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+
+  return { schema: BOARD_SCHEMA, version: BOARD_FORMAT_VERSION, rows, cols, boardName, items: valid };
+}
+
+/** Lit le contenu texte d'un fichier .json importé. */
+export function parseBoardFile(text: string): BoardSnapshot {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Fichier illisible : ce n'est pas du JSON valide.");
+  }
+
+  // un ancien export brut (v1) : on le migre au passage
+  if (isObject(raw) && !("schema" in raw) && Object.keys(raw).every((k) => /^\d+,\d+$/.test(k))) {
+    const keys = Object.keys(raw).map((k) => k.split(",").map(Number));
+    const size = { rows: Math.max(0, ...keys.map(([r]) => r + 1)), cols: Math.max(0, ...keys.map(([, c]) => c + 1)) };
+    return documentToSnapshot(migrateV1Grid(raw as Record<string, Cell>, "", size));
+  }
+
+  return documentToSnapshot(raw);
+}
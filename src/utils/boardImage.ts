@@ -0,0 +1,230 @@
+import type { BoardSnapshot } from "../views/BoardBuilder";
+import { getRectsForCell, getTileRotation } from "./grid";
+import { DEFAULT_PDF_SETTINGS, NAME_BOX_GAP, NAME_BOX_H } from "./pdfLayout";
+import {
+  BOARD_COLORS,
+  EDGE_RECT_OFFSET,
+  ENTRANCE_COLORS,
+  drawBoardOnCanvas,
+  getEdgeRectBox,
+  getPlacedTiles,
+  getRoadOptionOverlay,
+  getTileUrl,
+  rgbCss,
+} from "./tileCanvas";
+
+import hoboTtfUrl from "../assets/hobo.ttf?url";
+
+/**
+ * Export image du plateau (PNG et SVG), pour le partager sur Discord ou un forum.
+ * Même géométrie que le PDF : tuiles pivotées, overlays de route, entrées à cheval sur les bords
+ * et cartouche jaune du nom (proportions de la page PDF, rapportées à la taille d'une case).
+ */
+export type BoardImageOptions = {
+  cellPx: number; // résolution : pixels par case
+  background: "red" | "transparent";
+  banner: boolean; // cartouche jaune avec le nom du plateau
+};
+
+export const IMAGE_RESOLUTIONS = [
+  { cellPx: 64, label: "Standard" },
+  { cellPx: 128, label: "Haute" },
+  { cellPx: 256, label: "Très haute" },
+];
+
+export const DEFAULT_IMAGE_OPTIONS: BoardImageOptions = { cellPx: 128, background: "red", banner: true };
+
+type ImageBoard = Pick<BoardSnapshot, "rows" | "cols" | "grid" | "boardName">;
+
+/** Position du plateau et du cartouche dans l'image, en pixels. */
+export function getBoardImageLayout(rows: number, cols: number, { cellPx, banner }: Pick<BoardImageOptions, "cellPx" | "banner">) {
+  // la page PDF sert de référence : cases de 3 cm, cartouche de 0,8 cm à 0,3 cm sous le plateau
+  const pxPerCm = cellPx / DEFAULT_PDF_SETTINGS.cellCm;
+  const pad = Math.ceil(cellPx * EDGE_RECT_OFFSET) + Math.round(cellPx * 0.15); // les entrées dépassent du bord
+
+  const gridW = cols * cellPx;
+  const gridH = rows * cellPx;
+
+  const bannerBox = banner ? { x: pad, y: pad + gridH + NAME_BOX_GAP * pxPerCm, w: gridW * 0.5, h: NAME_BOX_H * pxPerCm } : null;
+
+  return {
+    ox: pad,
+    oy: pad,
+    gridW,
+    gridH,
+    banner: bannerBox,
+    // texte du cartouche : 13 pt, à 0,35 cm du bord et 0,55 cm du haut, comme sur le PDF
+    bannerText: { dx: 0.35 * pxPerCm, dy: 0.55 * pxPerCm, size: 0.4586 * pxPerCm },
+    width: Math.round(gridW + 2 * pad),
+    height: Math.round((bannerBox ? bannerBox.y + bannerBox.h : pad + gridH) + pad),
+  };
+}
+
+let fontReady: Promise<string> | null = null;
+
+// police du nom (Hobo) pour le canvas ; repli sur une police système si elle ne charge pas
+function loadBannerFont() {
+  fontReady ??= (async () => {
+    try {
+      const face = new FontFace("hobo", `url(${hoboTtfUrl})`);
+      document.fonts.add(await face.load());
+      return "hobo";
+    } catch {
+      return "'Arial Black', sans-serif";
+    }
+  })();
+  return fontReady;
+}
+
+/** Plateau rendu sur un canvas (utilisé par l'export PNG et la copie dans le presse-papiers). */
+export async function renderBoardImageCanvas(board: ImageBoard, options: BoardImageOptions) {
+  const l = getBoardImageLayout(board.rows, board.cols, options);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = l.width;
+  canvas.height = l.height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas indisponible dans ce navigateur.");
+
+  if (options.background === "red") {
+    ctx.fillStyle = rgbCss(BOARD_COLORS.frame);
+    ctx.fillRect(0, 0, l.width, l.height);
+  }
+
+  await drawBoardOnCanvas(ctx, board, options.cellPx, l.ox, l.oy);
+
+  if (l.banner) {
+    const b = l.banner;
+    ctx.fillStyle = rgbCss(BOARD_COLORS.name);
+    ctx.fillRect(b.x, b.y, b.w, b.h);
+    ctx.strokeStyle = "#000";
+    ctx.lineWidth = Math.max(1, options.cellPx / 50);
+    ctx.strokeRect(b.x, b.y, b.w, b.h);
+
+    ctx.fillStyle = "#000";
+    ctx.font = `${Math.round(l.bannerText.size)}px ${await loadBannerFont()}`;
+    ctx.textBaseline = "alphabetic";
+    ctx.fillText(board.boardName || "", b.x + l.bannerText.dx, b.y + l.bannerText.dy, b.w - 2 * l.bannerText.dx);
+  }
+
+  return canvas;
+}
+
+export async function renderBoardPng(board: ImageBoard, options: BoardImageOptions): Promise<Blob> {
+  const canvas = await renderBoardImageCanvas(board, options);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Export PNG impossible."))), "image/png");
+  });
+}
+
+// -------------------------------------------------------------------------
+// SVG
+
+function escapeXml(s: string) {
+  return s.replace(/[<>&"']/g, (ch) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[ch] ?? ch);
+}
+
+async function fetchAsDataUrl(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Asset fetch failed: ${res.status}`);
+  const blob = await res.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+const fmt = (v: number) => String(Math.round(v * 100) / 100);
+
+/**
+ * Plateau en SVG : les tuiles sont des <image> (intégrées en data URL ou référencées par leur URL),
+ * les entrées, le fond et le cartouche des formes vectorielles.
+ */
+export async function renderBoardSvg(board: ImageBoard, options: BoardImageOptions & { embedImages: boolean }) {
+  const { rows, cols, grid } = board;
+  const cell = options.cellPx;
+  const l = getBoardImageLayout(rows, cols, options);
+
+  const hrefCache = new Map<string, string>();
+  async function href(url: string) {
+    const absolute = new URL(url, window.location.href).href;
+    if (!options.embedImages) return absolute;
+
+    const cached = hrefCache.get(absolute);
+    if (cached) return cached;
+    const data = await fetchAsDataUrl(absolute).catch(() => absolute);
+    hrefCache.set(absolute, data);
+    return data;
+  }
+
+  const out: string[] = [];
+  const anchors = getPlacedTiles(board);
+
+  // tuiles : image de base centrée sur son emprise puis pivotée (comme buildRotatedTileCanvas)
+  for (const { r, c, it } of anchors) {
+    const cx = l.ox + (c + it.size.w / 2) * cell;
+    const cy = l.oy + (r + it.size.h / 2) * cell;
+    const w = it.baseSize.w * cell;
+    const h = it.baseSize.h * cell;
+    const rot = getTileRotation(it);
+
+    out.push(
+      `<g transform="translate(${fmt(cx)} ${fmt(cy)})${rot ? ` rotate(${rot})` : ""}">` +
+        `<image href="${escapeXml(await href(getTileUrl(it.type)))}" x="${fmt(-w / 2)}" y="${fmt(-h / 2)}" width="${fmt(w)}" height="${fmt(h)}" preserveAspectRatio="none"/>` +
+        `</g>`
+    );
+
+    const overlay = getRoadOptionOverlay(it);
+    if (overlay) {
+      out.push(
+        `<image href="${escapeXml(await href(overlay))}" x="${fmt(l.ox + c * cell)}" y="${fmt(l.oy + r * cell)}" width="${cell}" height="${cell}" preserveAspectRatio="xMidYMid meet"/>`
+      );
+    }
+  }
+
+  // entrées
+  for (const { r, c, it } of anchors) {
+    if (it.tileType !== "school" && it.tileType !== "safe_place") continue;
+    const fill = rgbCss(ENTRANCE_COLORS[it.tileType]);
+
+    for (let dy = 0; dy < it.size.h; dy++) {
+      for (let dx = 0; dx < it.size.w; dx++) {
+        const rects = getRectsForCell(`${r + dy},${c + dx}`, grid);
+        for (const side of ["top", "right", "bottom", "left"] as const) {
+          if (!rects[side]) continue;
+          const box = getEdgeRectBox(side, l.ox + (c + dx) * cell, l.oy + (r + dy) * cell, cell);
+          out.push(`<rect class="entrance ${it.tileType}" x="${fmt(box.x)}" y="${fmt(box.y)}" width="${fmt(box.w)}" height="${fmt(box.h)}" fill="${fill}"/>`);
+        }
+      }
+    }
+  }
+
+  const head: string[] = [];
+  if (options.embedImages && l.banner) {
+    const font = await fetchAsDataUrl(new URL(hoboTtfUrl, window.location.href).href).catch(() => null);
+    if (font) head.push(`<style>@font-face { font-family: "hobo"; src: url(${font}) format("truetype"); }</style>`);
+  }
+  if (options.background === "red") head.push(`<rect width="100%" height="100%" fill="${rgbCss(BOARD_COLORS.frame)}"/>`);
+  head.push(`<rect x="${l.ox}" y="${l.oy}" width="${l.gridW}" height="${l.gridH}" fill="${rgbCss(BOARD_COLORS.cell)}"/>`);
+
+  const tail: string[] = [];
+  if (l.banner) {
+    const b = l.banner;
+    tail.push(
+      `<rect x="${fmt(b.x)}" y="${fmt(b.y)}" width="${fmt(b.w)}" height="${fmt(b.h)}" fill="${rgbCss(BOARD_COLORS.name)}" stroke="#000" stroke-width="${fmt(Math.max(1, cell / 50))}"/>`,
+      `<text x="${fmt(b.x + l.bannerText.dx)}" y="${fmt(b.y + l.bannerText.dy)}" font-family="hobo, 'Arial Black', sans-serif" font-size="${fmt(l.bannerText.size)}">${escapeXml(board.boardName || "")}</text>`
+    );
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${l.width}" height="${l.height}" viewBox="0 0 ${l.width} ${l.height}">`,
+    `<title>${escapeXml(board.boardName || "Plateau")}</title>`,
+    ...head,
+    ...out,
+    ...tail,
+    `</svg>`,
+  ].join("\n");
+}
@@ -0,0 +1,91 @@
+import type { BoardDocument } from "./boardFormat";
+import { uid } from "./grid";
+
+/**
+ * Bibliothèque locale de plateaux, stockée dans IndexedDB
+ * (localStorage est trop petit pour plusieurs plateaux + miniatures).
+ */
+export type LibraryEntry = {
+  id: string;
+  name: string;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  document: BoardDocument;
+  thumbnail: string | null; // data URL
+};
+
+const DB_NAME = "dtts_boardbuilder";
+const DB_VERSION = 1;
+const STORE = "boards";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB n'est pas disponible dans ce navigateur."));
+      return;
+    }
+
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("Ouverture de la bibliothèque impossible."));
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error ?? new Error("Erreur de la bibliothèque."));
+      tx.onabort = () => reject(tx.error ?? new Error("Opération annulée."));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** Tous les plateaux, du plus récemment modifié au plus ancien. */
+export async function listBoards(): Promise<LibraryEntry[]> {
+  const all = await withStore<LibraryEntry[]>("readonly", (store) => store.getAll());
+  return all.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getBoard(id: string): Promise<LibraryEntry | null> {
+  const entry = await withStore<LibraryEntry | undefined>("readonly", (store) => store.get(id));
+  return entry ?? null;
+}
+
+export async function putBoard(entry: LibraryEntry): Promise<LibraryEntry> {
+  await withStore("readwrite", (store) => store.put(entry));
+  return entry;
+}
+
+export async function deleteBoard(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+/** Nouvelle entrée (save-as, duplication, import). */
+export function createEntry(document: BoardDocument, thumbnail: string | null): LibraryEntry {
+  const now = new Date().toISOString();
+  return { id: uid(), name: document.boardName, createdAt: now, updatedAt: now, document, thumbnail };
+}
+
+export async function duplicateBoard(id: string): Promise<LibraryEntry | null> {
+  const src = await getBoard(id);
+  if (!src) return null;
+  const name = `${src.name} (copie)`;
+  const copy = createEntry({ ...src.document, boardName: name }, src.thumbnail);
+  return putBoard(copy);
+}
+
+export async function renameBoard(id: string, name: string): Promise<LibraryEntry | null> {
+  const src = await getBoard(id);
+  if (!src) return null;
+  return putBoard({ ...src, name, document: { ...src.document, boardName: name }, updatedAt: new Date().toISOString() });
+}
@@ -0,0 +1,779 @@
+import { GState, jsPDF } from "jspdf";
+import type { BoardSnapshot, Cell, PlacedItem, RoadOptions, TileType } from "../views/BoardBuilder";
+import { safeFileName } from "./download";
+import { OVERLAY_LABELS, TILE_TYPE_LABELS, computeInventory, type OwnedStock } from "./inventory";
+import {
+  CROP_MARK_CM,
+  CROP_MARK_GAP_CM,
+  NAME_BOX_H,
+  TILE_BLEED_CM,
+  collectTilePieces,
+  describeTile,
+  formatCm,
+  getSinglePageLayout,
+  getTileLayout,
+  hasTileSheetAppendix,
+  planBoardPdf,
+  planTileSheets,
+  type BoardPdfPlan,
+  type PageSize,
+  type PdfExportSettings,
+  type PdfOrientation,
+  type PdfTile,
+} from "./pdfLayout";
+import { getAnchorItem, getAnchorKeyFromCellKey, getCellRC, getRectsForCell, getTileRotation, makeEmptyGrid, writeItemAtAnchor } from "./grid";
+import {
+  BOARD_COLORS,
+  EDGE_RECT_OFFSET,
+  ENTRANCE_COLORS,
+  buildRotatedTileCanvas,
+  cropCellFromFullTile,
+  getEdgeRectBox,
+  getRoadOptionOverlay,
+  getTileUrl,
+  loadImage,
+  toGreyscale,
+  type EdgeSide,
+  type Rgb,
+} from "./tileCanvas";
+
+import hoboTtfUrl from "../assets/hobo.ttf?url";
+
+import { version } from "../../package.json";
+
+/**
+ * Export PDF du plateau à l'échelle choisie (cases de 3 cm par défaut, comme les tuiles officielles).
+ *
+ * - s'il tient sur une feuille : une page, avec cadre, cartouche et mentions ;
+ * - sinon : un plan d'assemblage, puis une page par morceau. Chaque morceau reprend en bande voilée
+ *   le bord de ses voisins (recouvrement) et porte des repères en croix aux coins pour l'alignement.
+ *
+ * Second mode : des planches de tuiles entières à découper (traits de coupe, fond perdu), pour les coller sur du carton.
+ *
+ * La mise en page (papier, orientation, marges) est calculée dans pdfLayout.ts, partagé avec l'aperçu.
+ */
+const CELL_PX = 360;
+
+const FRAME_RADIUS = 0.35;
+const MARK_SIZE = 0.35;
+
+const C_BG: Rgb = BOARD_COLORS.frame;
+const C_CELL: Rgb = BOARD_COLORS.cell;
+const C_TEXT: Rgb = { r: 30, g: 30, b: 30 };
+const C_NAME: Rgb = BOARD_COLORS.name;
+const C_BLACK: Rgb = { r: 0, g: 0, b: 0 };
+const C_OUTLINE: Rgb = { r: 120, g: 120, b: 120 }; // économie d'encre
+
+// Mode d'impression : économie d'encre (contours) et / ou noir et blanc
+type PdfInk = Pick<PdfExportSettings, "inkSaver" | "greyscale">;
+
+function inkColor(c: Rgb, ink: PdfInk): Rgb {
+  if (!ink.greyscale) return c;
+  const y = Math.round(0.299 * c.r + 0.587 * c.g + 0.114 * c.b);
+  return { r: y, g: y, b: y };
+}
+
+type TiledPlan = Extract<BoardPdfPlan, { kind: "tiled" }>;
+
+// -------------------------------------------------------------------------
+
+async function loadTtfAsBase64(url: string): Promise<string> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Font fetch failed: ${res.status}`);
+  const buf = await res.arrayBuffer();
+  const bytes = new Uint8Array(buf);
+
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/** Image PNG de chaque case (tranche de tuile pivotée + overlay route, éventuellement en gris), mise en cache. */
+function createCellImages(grid: Record<string, Cell>, greyscale: boolean) {
+  const imgCache = new Map<string, HTMLImageElement>();
+  const fullTileCache = new Map<string, HTMLCanvasElement>();
+  const cellCache = new Map<string, string | null>();
+
+  async function getImg(src: string) {
+    const cached = imgCache.get(src);
+    if (cached) return cached;
+    const img = await loadImage(src);
+    imgCache.set(src, img);
+    return img;
+  }
+
+  return async function getCellImage(cellKey: string): Promise<string | null> {
+    const cached = cellCache.get(cellKey);
+    if (cached !== undefined) return cached;
+
+    const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
+    const it = anchorKey ? getAnchorItem(anchorKey, grid) : null;
+    if (!anchorKey || !it) {
+      cellCache.set(cellKey, null);
+      return null;
+    }
+
+    const baseW = it.baseSize.w;
+    const baseH = it.baseSize.h;
+    const rot = getTileRotation(it);
+
+    const { r: ar, c: ac } = getCellRC(anchorKey);
+    const { r, c } = getCellRC(cellKey);
+
+    // la clé inclut la rotation, sinon on réutiliserait un canvas pas dans le bon sens
+    const fullKey = `${anchorKey}|${it.type}|${baseW}x${baseH}|rot=${rot}`;
+    let fullCanvas = fullTileCache.get(fullKey);
+
+    if (!fullCanvas) {
+      const img = await getImg(getTileUrl(it.type));
+      fullCanvas = buildRotatedTileCanvas(img, baseW, baseH, CELL_PX, rot);
+      fullTileCache.set(fullKey, fullCanvas);
+    }
+
+    // (c - ac, r - ar) = position affichée dans la tuile (après rotation)
+    const cellCanvas = cropCellFromFullTile(fullCanvas, c - ac, r - ar, CELL_PX);
+
+    const overlaySrc = it.tileType === "road" ? getRoadOptionOverlay(it) : null;
+    if (overlaySrc) {
+      const ovImg = await getImg(overlaySrc);
+      const ctx = cellCanvas.getContext("2d");
+      if (ctx) {
+        const w = cellCanvas.width;
+        const h = cellCanvas.height;
+
+        const iw = ovImg.naturalWidth || 1;
+        const ih = ovImg.naturalHeight || 1;
+        const scale = Math.min(w / iw, h / ih);
+        const dw = iw * scale;
+        const dh = ih * scale;
+
+        ctx.drawImage(ovImg, (w - dw) / 2, (h - dh) / 2, dw, dh);
+      }
+    }
+
+    if (greyscale) toGreyscale(cellCanvas);
+
+    const dataUrl = cellCanvas.toDataURL("image/png");
+    cellCache.set(cellKey, dataUrl);
+    return dataUrl;
+  };
+}
+
+type CellRange = { r0: number; r1: number; c0: number; c1: number };
+
+/**
+ * Cases du plateau (fond + images) puis entrées par-dessus, origine du plateau en (ox, oy).
+ * L'alias par case évite d'embarquer plusieurs fois la même image (recouvrements, plan).
+ */
+async function drawCells(
+  pdf: jsPDF,
+  grid: Record<string, Cell>,
+  getCellImage: (cellKey: string) => Promise<string | null>,
+  ox: number,
+  oy: number,
+  range: CellRange,
+  cell: number,
+  ink: PdfInk
+) {
+  for (let r = range.r0; r < range.r1; r++) {
+    for (let c = range.c0; c < range.c1; c++) {
+      const x = ox + c * cell;
+      const y = oy + r * cell;
+
+      if (!ink.inkSaver) {
+        const bg = inkColor(C_CELL, ink);
+        pdf.setFillColor(bg.r, bg.g, bg.b);
+        pdf.rect(x, y, cell, cell, "F");
+      }
+
+      const dataUrl = await getCellImage(`${r},${c}`);
+      if (dataUrl) {
+        pdf.addImage(dataUrl, "PNG", x, y, cell, cell, `cell-${r}-${c}`);
+      } else if (ink.inkSaver) {
+        // case vide : simple contour
+        pdf.setDrawColor(C_OUTLINE.r, C_OUTLINE.g, C_OUTLINE.b);
+        pdf.setLineWidth(0.02);
+        pdf.rect(x, y, cell, cell, "S");
+      }
+    }
+  }
+
+  drawEntrances(pdf, grid, ox, oy, range, cell, ink);
+}
+
+/** Entrées (école + zone sûre, comme l'UI) des cases de la plage, à cheval sur les bords. */
+function drawEntrances(pdf: jsPDF, grid: Record<string, Cell>, ox: number, oy: number, range: CellRange, cell: number, ink: PdfInk) {
+  const sides: EdgeSide[] = ["top", "right", "bottom", "left"];
+
+  for (let r = range.r0; r < range.r1; r++) {
+    for (let c = range.c0; c < range.c1; c++) {
+      const cellKey = `${r},${c}`;
+      const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
+      const it = anchorKey ? getAnchorItem(anchorKey, grid) : null;
+
+      if (!it || (it.tileType !== "school" && it.tileType !== "safe_place")) continue;
+
+      const rects = getRectsForCell(cellKey, grid);
+      const color = ENTRANCE_COLORS[it.tileType];
+
+      for (const side of sides) {
+        if (!rects[side]) continue;
+        const box = getEdgeRectBox(side, ox + c * cell, oy + r * cell, cell);
+
+        if (ink.greyscale) {
+          drawEntrancePattern(pdf, box, it.tileType);
+        } else {
+          pdf.setFillColor(color.r, color.g, color.b);
+          pdf.rect(box.x, box.y, box.w, box.h, "F");
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Entrée lisible en noir et blanc : école = plein noir, zone sûre = hachures noires sur blanc.
+ * Les deux gardent un contour pour rester visibles sur une tuile sombre.
+ */
+function drawEntrancePattern(pdf: jsPDF, box: { x: number; y: number; w: number; h: number }, tileType: "school" | "safe_place") {
+  pdf.setDrawColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+  pdf.setLineWidth(0.02);
+
+  if (tileType === "school") {
+    pdf.setFillColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+    pdf.rect(box.x, box.y, box.w, box.h, "F");
+    pdf.setDrawColor(255, 255, 255);
+    pdf.rect(box.x, box.y, box.w, box.h, "S");
+    return;
+  }
+
+  pdf.setFillColor(255, 255, 255);
+  pdf.rect(box.x, box.y, box.w, box.h, "FD");
+
+  const step = Math.min(box.w, box.h) / 2.5;
+  pdf.saveGraphicsState();
+  clipRect(pdf, box.x, box.y, box.w, box.h);
+  for (let d = -box.h; d < box.w; d += step) pdf.line(box.x + d, box.y + box.h, box.x + d + box.h, box.y);
+  pdf.restoreGraphicsState();
+}
+
+function setNameFont(pdf: jsPDF) {
+  try {
+    pdf.setFont("hobo", "normal");
+  } catch {
+    pdf.setFont("helvetica", "bold");
+  }
+}
+
+function creditsText() {
+  return `Carte créée sur dtts-builder.thomaspelfrene.com (v${version}) | Imprimé le ${new Date().toLocaleDateString()} | Carte de jeu non officielle | thomaspelfrene.com`;
+}
+
+// -------------------------------------------------------------------------
+// Page unique
+
+async function drawSinglePage(
+  pdf: jsPDF,
+  board: BoardSnapshot,
+  plan: Extract<BoardPdfPlan, { kind: "single" }>,
+  settings: PdfExportSettings,
+  getCellImage: (cellKey: string) => Promise<string | null>
+) {
+  const { rows, cols, grid, boardName } = board;
+  const { page } = plan;
+  const { frame, startX, startY, gridH, nameBox, creditsX } = getSinglePageLayout(rows, cols, page, settings);
+
+  pdf.setFillColor(255, 255, 255);
+  pdf.rect(0, 0, page.w, page.h, "F");
+
+  if (settings.inkSaver) {
+    // cadre en contour, sans ombre
+    pdf.setDrawColor(C_OUTLINE.r, C_OUTLINE.g, C_OUTLINE.b);
+    pdf.setLineWidth(0.04);
+    pdf.roundedRect(frame.x, frame.y, frame.w, frame.h, FRAME_RADIUS, FRAME_RADIUS, "S");
+  } else {
+    pdf.setFillColor(0, 0, 0);
+    pdf.setGState(new GState({ opacity: 0.12 }));
+    pdf.roundedRect(frame.x + 0.12, frame.y + 0.12, frame.w, frame.h, FRAME_RADIUS, FRAME_RADIUS, "F");
+    pdf.setGState(new GState({ opacity: 0.06 }));
+    pdf.roundedRect(frame.x + 0.22, frame.y + 0.22, frame.w, frame.h, FRAME_RADIUS, FRAME_RADIUS, "F");
+    pdf.setGState(new GState({ opacity: 1 }));
+
+    const bg = inkColor(C_BG, settings);
+    pdf.setFillColor(bg.r, bg.g, bg.b);
+    pdf.roundedRect(frame.x, frame.y, frame.w, frame.h, FRAME_RADIUS, FRAME_RADIUS, "F");
+  }
+
+  // --- TEXTE VERTICAL À GAUCHE ---
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8);
+  pdf.setTextColor(C_TEXT.r, C_TEXT.g, C_TEXT.b);
+  pdf.text(creditsText(), creditsX, startY + gridH - 0.2, { angle: 90, align: "left" });
+
+  // --- ENCART JAUNE EN BAS ---
+  const nameBg = inkColor(C_NAME, settings);
+  pdf.setFillColor(nameBg.r, nameBg.g, nameBg.b);
+  pdf.setDrawColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+  pdf.setLineWidth(0.06);
+  pdf.rect(nameBox.x, nameBox.y, nameBox.w, NAME_BOX_H, settings.inkSaver ? "S" : "FD");
+
+  pdf.setTextColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+  setNameFont(pdf);
+  pdf.setFontSize(13);
+  pdf.text(boardName || "", nameBox.x + 0.35, nameBox.y + 0.55, { align: "left" });
+
+  // --- CASES + ENTRÉES ---
+  await drawCells(pdf, grid, getCellImage, startX, startY, { r0: 0, r1: rows, c0: 0, c1: cols }, settings.cellCm, settings);
+}
+
+// -------------------------------------------------------------------------
+// Plusieurs pages
+
+function clipRect(pdf: jsPDF, x: number, y: number, w: number, h: number) {
+  pdf.rect(x, y, w, h, null);
+  pdf.clip();
+  pdf.discardPath();
+}
+
+function drawRegistrationMark(pdf: jsPDF, x: number, y: number) {
+  pdf.setDrawColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+  pdf.setLineWidth(0.02);
+  pdf.line(x - MARK_SIZE, y, x + MARK_SIZE, y);
+  pdf.line(x, y - MARK_SIZE, x, y + MARK_SIZE);
+  pdf.circle(x, y, MARK_SIZE * 0.55, "S");
+}
+
+/** Page 1 : vue d'ensemble avec le numéro et l'étendue de chaque morceau. */
+async function drawAssemblyMap(
+  pdf: jsPDF,
+  board: BoardSnapshot,
+  plan: TiledPlan,
+  settings: PdfExportSettings,
+  getCellImage: (cellKey: string) => Promise<string | null>
+) {
+  const { rows, cols, grid, boardName } = board;
+  const { page } = plan;
+  const m = settings.marginCm;
+  const areaX = m;
+  const areaW = page.w - 2 * m;
+
+  pdf.setTextColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+  setNameFont(pdf);
+  pdf.setFontSize(18);
+  pdf.text(boardName || "Plateau", areaX, m + 0.6);
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(10);
+  pdf.setTextColor(C_TEXT.r, C_TEXT.g, C_TEXT.b);
+  const intro = [
+    `Plan d'assemblage — plateau ${cols} × ${rows}, cases de ${formatCm(settings.cellCm)} cm, ${plan.tiles.length} feuilles à assembler.`,
+    "Chaque feuille reprend en bande voilée le bord de ses voisines : superposez les feuilles en alignant les repères en croix,",
+    "puis scotchez au dos. Vous pouvez aussi couper la bande voilée le long des pointillés et assembler bord à bord.",
+  ];
+  pdf.text(pdf.splitTextToSize(intro.join(" "), areaW), areaX, m + 1.4, { lineHeightFactor: 1.4 });
+
+  // liste des feuilles (le plan n'en fait pas partie), en colonnes de 6,5 cm
+  const LIST_COL_W = 6.5;
+  const LIST_LINE_H = 0.45;
+  const listCols = Math.max(1, Math.floor(areaW / LIST_COL_W));
+  const listRows = Math.ceil(plan.tiles.length / listCols);
+  const listH = listRows * LIST_LINE_H;
+  const footerY = page.h - m;
+  const listY = footerY - 0.8 - listH;
+
+  pdf.setFontSize(9);
+  plan.tiles.forEach((tile, i) => {
+    const x = areaX + Math.floor(i / listRows) * LIST_COL_W;
+    const y = listY + (i % listRows) * LIST_LINE_H + 0.3;
+    pdf.text(`Feuille ${tile.index} : ${describeTile(tile)}`, x, y);
+  });
+
+  // schéma du plateau, réduit
+  const mapTop = m + 3.2;
+  const mapH = listY - 0.5 - mapTop;
+  const cell = Math.max(0.05, Math.min(areaW / cols, mapH / rows));
+  const ox = areaX + (areaW - cell * cols) / 2;
+  const oy = mapTop + Math.max(0, mapH - cell * rows) / 2;
+
+  await drawCells(pdf, grid, getCellImage, ox, oy, { r0: 0, r1: rows, c0: 0, c1: cols }, cell, settings);
+
+  pdf.setDrawColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+  pdf.setLineWidth(0.05);
+  for (const tile of plan.tiles) {
+    const x = ox + tile.c0 * cell;
+    const y = oy + tile.r0 * cell;
+    const w = (tile.c1 - tile.c0) * cell;
+    const h = (tile.r1 - tile.r0) * cell;
+
+    pdf.setFillColor(255, 255, 255);
+    pdf.setGState(new GState({ opacity: 0.35 }));
+    pdf.rect(x, y, w, h, "F");
+    pdf.setGState(new GState({ opacity: 1 }));
+    pdf.rect(x, y, w, h, "S");
+
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(Math.max(10, Math.min(36, cell * 12)));
+    pdf.setTextColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+    pdf.text(String(tile.index), x + w / 2, y + h / 2, { align: "center", baseline: "middle" });
+  }
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(7);
+  pdf.setTextColor(C_TEXT.r, C_TEXT.g, C_TEXT.b);
+  pdf.text(creditsText(), areaX, footerY);
+}
+
+async function drawTilePage(
+  pdf: jsPDF,
+  board: BoardSnapshot,
+  plan: TiledPlan,
+  settings: PdfExportSettings,
+  tile: PdfTile,
+  getCellImage: (cellKey: string) => Promise<string | null>
+) {
+  const { rows, cols, grid, boardName } = board;
+  const { page } = plan;
+  const m = settings.marginCm;
+  const cell = settings.cellCm;
+
+  // --- BANDEAU ---
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(10);
+  pdf.setTextColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+  pdf.text(boardName || "Plateau", m, m + 0.4);
+
+  pdf.setFont("helvetica", "normal");
+  pdf.text(`Feuille ${tile.index} / ${plan.tiles.length} — ${describeTile(tile)}`, page.w - m, m + 0.4, { align: "right" });
+
+  // au bord du plateau, on laisse dépasser les entrées
+  const { own, visible, ox, oy, has, overlap } = getTileLayout(tile, rows, cols, settings, cell * EDGE_RECT_OFFSET);
+
+  // --- CASES (morceau + une case de chaque voisin, découpées à la bande de recouvrement) ---
+  pdf.saveGraphicsState();
+  clipRect(pdf, visible.x, visible.y, visible.w, visible.h);
+  await drawCells(
+    pdf,
+    grid,
+    getCellImage,
+    ox,
+    oy,
+    {
+      r0: Math.max(0, tile.r0 - 1),
+      r1: Math.min(rows, tile.r1 + 1),
+      c0: Math.max(0, tile.c0 - 1),
+      c1: Math.min(cols, tile.c1 + 1),
+    },
+    cell,
+    settings
+  );
+
+  // voile sur les bandes de recouvrement
+  pdf.setFillColor(255, 255, 255);
+  pdf.setGState(new GState({ opacity: 0.55 }));
+  if (has.left) pdf.rect(own.x - overlap, visible.y, overlap, visible.h, "F");
+  if (has.right) pdf.rect(own.x + own.w, visible.y, overlap, visible.h, "F");
+  if (has.top) pdf.rect(own.x, own.y - overlap, own.w, overlap, "F");
+  if (has.bottom) pdf.rect(own.x, own.y + own.h, own.w, overlap, "F");
+  pdf.setGState(new GState({ opacity: 1 }));
+  pdf.restoreGraphicsState();
+
+  // --- LIGNES DE COUPE (pointillés) côté voisins ---
+  pdf.setDrawColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+  pdf.setLineWidth(0.02);
+  pdf.setLineDashPattern([0.2, 0.15], 0);
+  if (has.left) pdf.line(own.x, visible.y, own.x, visible.y + visible.h);
+  if (has.right) pdf.line(own.x + own.w, visible.y, own.x + own.w, visible.y + visible.h);
+  if (has.top) pdf.line(visible.x, own.y, visible.x + visible.w, own.y);
+  if (has.bottom) pdf.line(visible.x, own.y + own.h, visible.x + visible.w, own.y + own.h);
+  pdf.setLineDashPattern([], 0);
+
+  // --- REPÈRES : mêmes points du plateau sur les pages voisines ---
+  for (const [x, y] of [
+    [own.x, own.y],
+    [own.x + own.w, own.y],
+    [own.x, own.y + own.h],
+    [own.x + own.w, own.y + own.h],
+  ]) {
+    drawRegistrationMark(pdf, x, y);
+  }
+
+  // --- PIED ---
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(7);
+  pdf.setTextColor(C_TEXT.r, C_TEXT.g, C_TEXT.b);
+  pdf.text(creditsText(), m, Math.min(page.h - 0.15, page.h - m + 0.4));
+}
+
+// -------------------------------------------------------------------------
+
+// -------------------------------------------------------------------------
+// Annexe : inventaire des pièces
+
+/** Dernière page : tuiles utilisées par modèle (et pièces possédées si renseignées), overlays, entrées. */
+function drawInventoryAppendix(pdf: jsPDF, board: BoardSnapshot, page: PageSize, orientation: PdfOrientation, settings: PdfExportSettings, stock: OwnedStock) {
+  const inventory = computeInventory(board.grid, stock);
+  const used = inventory.lines.filter((l) => l.count > 0);
+  const hasStock = used.some((l) => l.owned !== null);
+
+  const m = Math.max(settings.marginCm, 0.8);
+  const LINE_H = 0.55;
+
+  pdf.addPage([page.w, page.h], orientation);
+  let y = m + 0.6;
+
+  pdf.setTextColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(16);
+  pdf.text(`Inventaire — ${board.boardName || "Plateau"}`, m, y);
+  y += 1;
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(10);
+  pdf.setTextColor(C_TEXT.r, C_TEXT.g, C_TEXT.b);
+  const summary = [
+    `${inventory.total} tuile(s) : ${(Object.keys(TILE_TYPE_LABELS) as TileType[]).map((t) => `${inventory.byTileType[t]} ${TILE_TYPE_LABELS[t].toLowerCase()}`).join(", ")}.`,
+    `Overlays de route : ${(Object.keys(OVERLAY_LABELS) as Array<keyof RoadOptions>).map((k) => `${OVERLAY_LABELS[k]} × ${inventory.overlays[k]}`).join(", ")}.`,
+    `Entrées : ${inventory.entrances.school} d'école, ${inventory.entrances.safe_place} de zone sûre.`,
+  ];
+  pdf.text(summary, m, y, { lineHeightFactor: 1.5 });
+  y += summary.length * LINE_H + 0.6;
+
+  // tableau
+  const colCount = page.w - m - (hasStock ? 4.5 : 2);
+  const colOwned = page.w - m;
+  const header = () => {
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+    pdf.text("Tuile", m, y);
+    pdf.text("Utilisées", colCount, y, { align: "right" });
+    if (hasStock) pdf.text("Possédées", colOwned, y, { align: "right" });
+    y += 0.2;
+    pdf.setDrawColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+    pdf.setLineWidth(0.02);
+    pdf.line(m, y, page.w - m, y);
+    y += LINE_H;
+    pdf.setFont("helvetica", "normal");
+  };
+
+  header();
+  for (const l of used) {
+    if (y > page.h - m) {
+      pdf.addPage([page.w, page.h], orientation);
+      y = m + 0.6;
+      header();
+    }
+
+    const short = l.missing > 0;
+    pdf.setTextColor(short ? 180 : C_TEXT.r, short ? 30 : C_TEXT.g, short ? 30 : C_TEXT.b);
+    pdf.text(`${l.name} (${l.type})`, m, y);
+    pdf.text(String(l.count), colCount, y, { align: "right" });
+    if (hasStock) pdf.text(l.owned === null ? "—" : short ? `${l.owned} (manque ${l.missing})` : String(l.owned), colOwned, y, { align: "right" });
+    y += LINE_H;
+  }
+
+  if (used.length === 0) {
+    pdf.setTextColor(C_TEXT.r, C_TEXT.g, C_TEXT.b);
+    pdf.text("Aucune tuile sur le plateau.", m, y);
+  }
+}
+
+async function createPdf(orientation: PdfOrientation, page: PageSize) {
+  const pdf = new jsPDF({
+    orientation,
+    unit: "cm",
+    format: [page.w, page.h],
+    compress: true,
+  });
+
+  // Font
+  try {
+    const base64 = await loadTtfAsBase64(hoboTtfUrl);
+    pdf.addFileToVFS("hobo.ttf", base64);
+    pdf.addFont("hobo.ttf", "hobo", "normal");
+  } catch {
+    // fallback silencieux
+  }
+
+  return pdf;
+}
+
+export async function generateBoardPdf(board: BoardSnapshot, settings: PdfExportSettings, stock: OwnedStock = {}) {
+  const plan = planBoardPdf(board.rows, board.cols, settings);
+  const pdf = await createPdf(plan.orientation, plan.page);
+  const getCellImage = createCellImages(board.grid, settings.greyscale);
+
+  if (plan.kind === "single") {
+    await drawSinglePage(pdf, board, plan, settings, getCellImage);
+  } else {
+    await drawAssemblyMap(pdf, board, plan, settings, getCellImage);
+    for (const tile of plan.tiles) {
+      pdf.addPage([plan.page.w, plan.page.h], plan.orientation);
+      await drawTilePage(pdf, board, plan, settings, tile, getCellImage);
+    }
+  }
+
+  if (settings.inventoryAppendix) drawInventoryAppendix(pdf, board, plan.page, plan.orientation, settings, stock);
+
+  pdf.save(`${safeFileName(board.boardName || "DTTS - plateau")}.pdf`);
+}
+
+// -------------------------------------------------------------------------
+// Planches de tuiles à découper
+
+/**
+ * Image PNG d'une tuile entière (pivotée, overlay route), prolongée sur le fond perdu
+ * en étirant ses bords. Mise en cache par modèle : les tuiles identiques partagent l'image.
+ */
+function createPieceImages(bleedCm: number, cellCm: number, ink: PdfInk) {
+  const imgCache = new Map<string, HTMLImageElement>();
+  const pieceCache = new Map<string, { dataUrl: string; alias: string }>();
+
+  async function getImg(src: string) {
+    const cached = imgCache.get(src);
+    if (cached) return cached;
+    const img = await loadImage(src);
+    imgCache.set(src, img);
+    return img;
+  }
+
+  return async function getPieceImage(it: PlacedItem) {
+    const rot = getTileRotation(it);
+    const overlaySrc = it.tileType === "road" ? getRoadOptionOverlay(it) : null;
+    const key = `${it.type}|rot=${rot}|${overlaySrc ?? ""}`;
+
+    const cached = pieceCache.get(key);
+    if (cached) return cached;
+
+    const full = buildRotatedTileCanvas(await getImg(getTileUrl(it.type)), it.baseSize.w, it.baseSize.h, CELL_PX, rot);
+
+    if (overlaySrc) {
+      const ovImg = await getImg(overlaySrc);
+      const ctx = full.getContext("2d");
+      if (ctx) {
+        const iw = ovImg.naturalWidth || 1;
+        const ih = ovImg.naturalHeight || 1;
+        const scale = Math.min(full.width / iw, full.height / ih);
+        ctx.drawImage(ovImg, (full.width - iw * scale) / 2, (full.height - ih * scale) / 2, iw * scale, ih * scale);
+      }
+    }
+
+    const fw = full.width;
+    const fh = full.height;
+    const b = Math.round((bleedCm / cellCm) * CELL_PX);
+
+    const out = document.createElement("canvas");
+    out.width = fw + 2 * b;
+    out.height = fh + 2 * b;
+
+    const ctx = out.getContext("2d");
+    if (ctx) {
+      const bg = ink.inkSaver ? { r: 255, g: 255, b: 255 } : C_CELL;
+      ctx.fillStyle = `rgb(${bg.r}, ${bg.g}, ${bg.b})`;
+      ctx.fillRect(0, 0, out.width, out.height);
+      ctx.drawImage(full, b, b);
+
+      // fond perdu : on étire la dernière ligne / colonne de pixels
+      ctx.drawImage(full, 0, 0, fw, 1, b, 0, fw, b);
+      ctx.drawImage(full, 0, fh - 1, fw, 1, b, fh + b, fw, b);
+      ctx.drawImage(full, 0, 0, 1, fh, 0, b, b, fh);
+      ctx.drawImage(full, fw - 1, 0, 1, fh, fw + b, b, b, fh);
+      ctx.drawImage(full, 0, 0, 1, 1, 0, 0, b, b);
+      ctx.drawImage(full, fw - 1, 0, 1, 1, fw + b, 0, b, b);
+      ctx.drawImage(full, 0, fh - 1, 1, 1, 0, fh + b, b, b);
+      ctx.drawImage(full, fw - 1, fh - 1, 1, 1, fw + b, fh + b, b, b);
+    }
+
+    if (ink.greyscale) toGreyscale(out);
+
+    const entry = { dataUrl: out.toDataURL("image/png"), alias: `piece-${pieceCache.size}` };
+    pieceCache.set(key, entry);
+    return entry;
+  };
+}
+
+/** Traits de coupe aux quatre coins, dans le prolongement des bords, hors du fond perdu. */
+function drawCropMarks(pdf: jsPDF, x: number, y: number, w: number, h: number) {
+  const from = TILE_BLEED_CM + CROP_MARK_GAP_CM;
+  const to = from + CROP_MARK_CM;
+
+  pdf.setDrawColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+  pdf.setLineWidth(0.02);
+
+  for (const [cx, sx] of [
+    [x, -1],
+    [x + w, 1],
+  ]) {
+    for (const [cy, sy] of [
+      [y, -1],
+      [y + h, 1],
+    ]) {
+      pdf.line(cx + sx * from, cy, cx + sx * to, cy);
+      pdf.line(cx, cy + sy * from, cx, cy + sy * to);
+    }
+  }
+}
+
+export async function generateTileSheetPdf(board: BoardSnapshot, settings: PdfExportSettings, stock: OwnedStock = {}) {
+  const pieces = collectTilePieces(settings.tileSource, board);
+  if (pieces.length === 0) throw new Error("Aucune tuile à imprimer : le plateau est vide.");
+
+  const plan = planTileSheets(pieces, settings);
+  const { page } = plan;
+  const m = settings.marginCm;
+  const cell = settings.cellCm;
+
+  const pdf = await createPdf(plan.orientation, page);
+  const getPieceImage = createPieceImages(TILE_BLEED_CM, cell, settings);
+  const title = settings.tileSource === "palette" ? "Toutes les tuiles" : board.boardName || "Plateau";
+
+  for (let i = 0; i < plan.sheets.length; i++) {
+    const sheet = plan.sheets[i];
+    if (i > 0) pdf.addPage([page.w, page.h], plan.orientation);
+
+    // --- BANDEAU ---
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(10);
+    pdf.setTextColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
+    pdf.text(`${title} — tuiles à découper`, m, m + 0.4);
+
+    pdf.setFont("helvetica", "normal");
+    pdf.text(`Planche ${i + 1} / ${plan.sheets.length} — ${sheet.length} tuile(s) sur ${pieces.length}`, page.w - m, m + 0.4, { align: "right" });
+
+    // --- PIÈCES ---
+    for (const pl of sheet) {
+      const it = pieces[pl.piece];
+
+      try {
+        const img = await getPieceImage(it);
+        pdf.addImage(img.dataUrl, "PNG", pl.x - TILE_BLEED_CM, pl.y - TILE_BLEED_CM, pl.w + 2 * TILE_BLEED_CM, pl.h + 2 * TILE_BLEED_CM, img.alias);
+      } catch {
+        // asset manquant : fond uni (ou contour en économie d'encre)
+        const bg = inkColor(C_CELL, settings);
+        pdf.setFillColor(bg.r, bg.g, bg.b);
+        pdf.setDrawColor(C_OUTLINE.r, C_OUTLINE.g, C_OUTLINE.b);
+        pdf.setLineWidth(0.02);
+        pdf.rect(pl.x, pl.y, pl.w, pl.h, settings.inkSaver ? "S" : "F");
+      }
+
+      // entrées : la tuile seule, posée en (0, 0) d'une grille à sa taille
+      const grid = makeEmptyGrid(it.size.h, it.size.w);
+      writeItemAtAnchor(grid, "0,0", it);
+      drawEntrances(pdf, grid, pl.x, pl.y, { r0: 0, r1: it.size.h, c0: 0, c1: it.size.w }, cell, settings);
+
+      drawCropMarks(pdf, pl.x, pl.y, pl.w, pl.h);
+    }
+
+    // --- PIED ---
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(7);
+    pdf.setTextColor(C_TEXT.r, C_TEXT.g, C_TEXT.b);
+    pdf.text(creditsText(), m, Math.min(page.h - 0.15, page.h - m + 0.4));
+  }
+
+  if (hasTileSheetAppendix(settings)) drawInventoryAppendix(pdf, board, page, plan.orientation, settings, stock);
+
+  pdf.save(`${safeFileName(`${title} - tuiles`)}.pdf`);
+}
@@ -0,0 +1,168 @@
+import type { BoardSnapshot, Cell, PlacedItem } from "../views/BoardBuilder";
+import { getAnchorItem, getCellsForFootprint, getRectsForCell, isAnchor } from "./grid";
+import {
+  EDGE_SIDES,
+  OPPOSITE_SIDE,
+  buildRoadGraph,
+  getNeighborKey,
+  getRoadComponents,
+  isDrivableRoad,
+  type RoadDeadEndReason,
+  type RoadGraph,
+} from "./roadGraph";
+
+/**
+ * Règles de jouabilité du plateau : chaque problème est une erreur (plateau injouable)
+ * ou un avertissement (probablement involontaire), avec les cases concernées pour les surligner.
+ */
+export type RuleSeverity = "error" | "warning";
+
+export type RuleIssue = {
+  id: string; // stable : sert de clé React
+  severity: RuleSeverity;
+  message: string;
+  cells: string[];
+};
+
+export type BoardValidation = {
+  issues: RuleIssue[]; // erreurs d'abord
+  errors: number;
+  warnings: number;
+  cells: Record<string, RuleSeverity>; // case → gravité la plus haute
+};
+
+type RulesBoard = Pick<BoardSnapshot, "rows" | "cols" | "grid">;
+
+// les espaces vides servent de remplissage : pas besoin d'entrée
+export function needsEntrance(it: Pick<PlacedItem, "tileType" | "type">) {
+  return it.tileType === "school" || (it.tileType === "safe_place" && !it.type.startsWith("empty"));
+}
+
+function getAnchors(grid: Record<string, Cell>) {
+  const out: Array<{ key: string; it: PlacedItem }> = [];
+  for (const [key, cell] of Object.entries(grid)) {
+    if (cell && isAnchor(cell)) out.push({ key, it: cell.item });
+  }
+  return out;
+}
+
+function checkEntrances(board: RulesBoard, graph: RoadGraph, issues: RuleIssue[]) {
+  const { rows, cols, grid } = board;
+
+  for (const { key, it } of getAnchors(grid)) {
+    if (it.tileType !== "school" && it.tileType !== "safe_place") continue;
+
+    const footprint = getCellsForFootprint(key, it.size);
+    let entrances = 0;
+
+    for (const cellKey of footprint) {
+      const rects = getRectsForCell(cellKey, grid);
+
+      for (const side of EDGE_SIDES) {
+        if (!rects[side]) continue;
+        entrances++;
+
+        const id = `entrance:${cellKey}:${side}`;
+        const neighborKey = getNeighborKey(cellKey, side, rows, cols);
+
+        if (!neighborKey) {
+          issues.push({ id, severity: "error", message: `${it.name} : une entrée donne sur le bord du plateau.`, cells: [cellKey] });
+          continue;
+        }
+
+        const neighbor = getAnchorItem(neighborKey, grid);
+
+        if (!neighbor) {
+          issues.push({ id, severity: "warning", message: `${it.name} : une entrée donne sur une case vide.`, cells: [cellKey, neighborKey] });
+        } else if (!isDrivableRoad(neighbor)) {
+          issues.push({ id, severity: "error", message: `${it.name} : une entrée est bloquée par ${neighbor.name}.`, cells: [cellKey, neighborKey] });
+        } else if (!graph.nodes.get(neighborKey)?.edges.includes(OPPOSITE_SIDE[side])) {
+          issues.push({ id, severity: "error", message: `${it.name} : une entrée donne sur le côté fermé d’une route (${neighbor.name}).`, cells: [cellKey, neighborKey] });
+        }
+      }
+    }
+
+    if (entrances === 0 && needsEntrance(it)) {
+      issues.push({
+        id: `no-entrance:${key}`,
+        severity: it.tileType === "school" ? "error" : "warning",
+        message: `${it.name} n’a aucune entrée.`,
+        cells: footprint,
+      });
+    }
+  }
+}
+
+const DEAD_END_MESSAGES: Record<RoadDeadEndReason, string> = {
+  board_edge: "la route sort du plateau.",
+  empty: "la route mène à une case vide.",
+  closed_road: "la route bute sur le côté fermé d’une autre route.",
+  building: "la route bute sur un bâtiment sans entrée de ce côté.",
+};
+
+function checkRoadNetwork(graph: RoadGraph, issues: RuleIssue[]) {
+  for (const d of graph.deadEnds) {
+    issues.push({
+      id: `dead-end:${d.cell}:${d.side}`,
+      severity: "warning",
+      message: `${graph.nodes.get(d.cell)?.item.name ?? "Route"} : ${DEAD_END_MESSAGES[d.reason]}`,
+      cells: d.neighbor ? [d.cell, d.neighbor] : [d.cell],
+    });
+  }
+
+  const islands = getRoadComponents(graph);
+  if (islands.length <= 1) return;
+
+  // la plus grande partie sert de référence, on signale les autres
+  islands.slice(1).forEach((island, i) => {
+    issues.push({
+      id: `road-island:${island[0]}`,
+      severity: "error",
+      message: `Réseau routier coupé : ${island.length} route(s) isolée(s) du reste (partie ${i + 2} sur ${islands.length}).`,
+      cells: island,
+    });
+  });
+}
+
+function checkComposition(board: RulesBoard, issues: RuleIssue[]) {
+  const anchors = getAnchors(board.grid);
+  if (anchors.length === 0) return;
+
+  if (!anchors.some(({ it }) => it.tileType === "school")) {
+    issues.push({ id: "no-school", severity: "error", message: "Le plateau n’a aucune école.", cells: [] });
+  }
+  if (!anchors.some(({ it }) => it.tileType === "safe_place" && needsEntrance(it))) {
+    issues.push({ id: "no-safe-place", severity: "warning", message: "Le plateau n’a aucune zone sûre.", cells: [] });
+  }
+  if (!anchors.some(({ it }) => isDrivableRoad(it))) {
+    issues.push({ id: "no-road", severity: "error", message: "Le plateau n’a aucune route.", cells: [] });
+  }
+}
+
+export function validateBoard(board: RulesBoard): BoardValidation {
+  const issues: RuleIssue[] = [];
+
+  const graph = buildRoadGraph(board);
+
+  checkComposition(board, issues);
+  checkEntrances(board, graph, issues);
+  checkRoadNetwork(graph, issues);
+
+  issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+
+  const cells: Record<string, RuleSeverity> = {};
+  for (const issue of issues) {
+    for (const key of issue.cells) if (cells[key] !== "error") cells[key] = issue.severity;
+  }
+
+  const errors = issues.filter((i) => i.severity === "error").length;
+  return { issues, errors, warnings: issues.length - errors, cells };
+}
+
+export function describeValidation(v: Pick<BoardValidation, "errors" | "warnings">) {
+  if (!v.errors && !v.warnings) return "Plateau jouable";
+  const parts: string[] = [];
+  if (v.errors) parts.push(`${v.errors} erreur${v.errors > 1 ? "s" : ""}`);
+  if (v.warnings) parts.push(`${v.warnings} avertissement${v.warnings > 1 ? "s" : ""}`);
+  return parts.join(", ");
+}
@@ -0,0 +1,22 @@
+export type BoardSize = { rows: number; cols: number };
+
+// Plateau officiel : 6 lignes x 8 colonnes
+export const DEFAULT_BOARD_SIZE: BoardSize = { rows: 6, cols: 8 };
+
+// Bornes raisonnables : mini plateau 2 joueurs → grand plateau extension
+export const BOARD_SIZE_LIMITS = {
+  rows: { min: 3, max: 12 },
+  cols: { min: 3, max: 16 },
+};
+
+export function clampBoardSize(size: Partial<BoardSize> | null | undefined): BoardSize {
+  const clampInt = (v: unknown, min: number, max: number, fallback: number) => {
+    const n = typeof v === "number" && Number.isFinite(v) ? Math.round(v) : fallback;
+    return Math.max(min, Math.min(max, n));
+  };
+
+  return {
+    rows: clampInt(size?.rows, BOARD_SIZE_LIMITS.rows.min, BOARD_SIZE_LIMITS.rows.max, DEFAULT_BOARD_SIZE.rows),
+    cols: clampInt(size?.cols, BOARD_SIZE_LIMITS.cols.min, BOARD_SIZE_LIMITS.cols.max, DEFAULT_BOARD_SIZE.cols),
+  };
+}
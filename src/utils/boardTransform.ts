@@ -0,0 +1,217 @@
+import type { BoardSnapshot, Cell, PlacedItem, PlacedOptions, TileRotation } from "../views/BoardBuilder";
+import { BOARD_SIZE_LIMITS } from "./boardSize";
+import { canPlaceAt, getCellRC, getTileRotation, isAnchor, makeEmptyGrid, normalizeOptions, writeItemAtAnchor } from "./grid";
+import { findPaletteItem } from "./palette";
+import { EDGE_SIDES, rotateSide } from "./roadGraph";
+import type { EdgeSide } from "./tileCanvas";
+import { getAnchorsByIds, removeItems } from "./tileGroup";
+
+/**
+ * Transformations du plateau entier ou d'une sélection : rotation de 90° / 180°, miroir horizontal / vertical.
+ * Chaque tuile change d'ancre, de rotation et d'entrées. Les illustrations ne peuvent pas être retournées :
+ * un miroir est rendu par la rotation la plus proche (exacte pour les routes, dont seuls les côtés ouverts comptent).
+ */
+export type BoardTransform = "rotate90" | "rotate180" | "mirrorH" | "mirrorV";
+
+export const BOARD_TRANSFORM_LABELS: Record<BoardTransform, string> = {
+  rotate90: "Pivoter 90°",
+  rotate180: "Pivoter 180°",
+  mirrorH: "Miroir ↔",
+  mirrorV: "Miroir ↕",
+};
+
+// -------------------------------------------------------------------------
+// Entrées (segments) : rotation et symétrie
+
+export function rotateSegmentsCW90(opts: PlacedOptions, w: number, h: number): PlacedOptions {
+  const top = (opts.topSegments ?? Array.from({ length: w }, () => false)) as boolean[];
+  const bottom = (opts.bottomSegments ?? Array.from({ length: w }, () => false)) as boolean[];
+  const left = (opts.leftSegments ?? Array.from({ length: h }, () => false)) as boolean[];
+  const right = (opts.rightSegments ?? Array.from({ length: h }, () => false)) as boolean[];
+
+  const newW = h;
+  const newH = w;
+
+  const newTop = Array.from({ length: newW }, (_, i) => !!left[h - 1 - i]);
+  const newRight = Array.from({ length: newH }, (_, i) => !!top[i]);
+  const newBottom = Array.from({ length: newW }, (_, i) => !!right[h - 1 - i]);
+  const newLeft = Array.from({ length: newH }, (_, i) => !!bottom[i]);
+
+  return { ...opts, topSegments: newTop, rightSegments: newRight, bottomSegments: newBottom, leftSegments: newLeft };
+}
+
+export function rotateSegmentsBy(opts: PlacedOptions, w: number, h: number, stepsCW: number) {
+  let out = { ...opts };
+  const cw = stepsCW % 4;
+  let curW = w;
+  let curH = h;
+
+  for (let i = 0; i < cw; i++) {
+    out = rotateSegmentsCW90(out, curW, curH);
+    const nextW = curH;
+    const nextH = curW;
+    curW = nextW;
+    curH = nextH;
+  }
+
+  return { opts: out, w: curW, h: curH };
+}
+
+/** Symétrie des entrées : "h" échange gauche et droite, "v" haut et bas. */
+export function mirrorSegments(opts: PlacedOptions, w: number, h: number, axis: "h" | "v"): PlacedOptions {
+  const top = (opts.topSegments ?? Array.from({ length: w }, () => false)) as boolean[];
+  const bottom = (opts.bottomSegments ?? Array.from({ length: w }, () => false)) as boolean[];
+  const left = (opts.leftSegments ?? Array.from({ length: h }, () => false)) as boolean[];
+  const right = (opts.rightSegments ?? Array.from({ length: h }, () => false)) as boolean[];
+
+  const rev = (a: boolean[]) => [...a].reverse();
+
+  if (axis === "h") return { ...opts, topSegments: rev(top), bottomSegments: rev(bottom), leftSegments: [...right], rightSegments: [...left] };
+  return { ...opts, topSegments: [...bottom], bottomSegments: [...top], leftSegments: rev(left), rightSegments: rev(right) };
+}
+
+// -------------------------------------------------------------------------
+// Tuiles
+
+const MIRROR_SIDE: Record<"h" | "v", Record<EdgeSide, EdgeSide>> = {
+  h: { top: "top", bottom: "bottom", left: "right", right: "left" },
+  v: { top: "bottom", bottom: "top", left: "left", right: "right" },
+};
+
+function sameSides(a: EdgeSide[], b: EdgeSide[]) {
+  return a.length === b.length && EDGE_SIDES.every((s) => a.includes(s) === b.includes(s));
+}
+
+/** Rotation d'une route dont les côtés ouverts reproduisent ceux de sa version miroir (null si aucune). */
+function mirrorRoadRotation(it: PlacedItem, axis: "h" | "v"): TileRotation | null {
+  const base = findPaletteItem(it.type)?.roadEdges ?? [];
+  const rot = getTileRotation(it);
+  const mirrored = base.map((side) => MIRROR_SIDE[axis][rotateSide(side, rot)]);
+
+  // on garde la rotation actuelle si elle convient déjà (ligne droite, croisement, forêt)
+  for (const candidate of [rot, 0, 90, 180, 270] as TileRotation[]) {
+    if (sameSides(base.map((side) => rotateSide(side, candidate)), mirrored)) return candidate;
+  }
+  return null;
+}
+
+// les tuiles non carrées n'ont que deux rotations : 180° donne la même emprise que 0°
+function allowedRotation(it: Pick<PlacedItem, "baseSize">, rotation: number): TileRotation {
+  const r = ((rotation % 360) + 360) % 360;
+  return (it.baseSize.w === 1 && it.baseSize.h === 1 ? r : r % 180) as TileRotation;
+}
+
+/** Tuile transformée (emprise, rotation, entrées) ; `approximated` : miroir rendu par une rotation. */
+export function transformItem(it: PlacedItem, op: BoardTransform): { item: PlacedItem; approximated: boolean } {
+  const curr = normalizeOptions(it);
+  const hasSegments = curr.tileType === "school" || curr.tileType === "safe_place";
+
+  if (op === "rotate90" || op === "rotate180") {
+    const steps = op === "rotate90" ? 1 : 2;
+    const rotation = allowedRotation(curr, getTileRotation(curr) + steps * 90);
+    const swap = steps === 1;
+    const size = swap ? { w: curr.size.h, h: curr.size.w } : curr.size;
+    const options = hasSegments ? rotateSegmentsBy(curr.options, curr.size.w, curr.size.h, steps).opts : curr.options;
+    return { item: normalizeOptions({ ...curr, size, options: { ...options, rotation } }), approximated: false };
+  }
+
+  const axis = op === "mirrorH" ? "h" : "v";
+
+  if (curr.tileType === "road") {
+    const rotation = mirrorRoadRotation(curr, axis);
+    if (rotation !== null) return { item: normalizeOptions({ ...curr, options: { ...curr.options, rotation } }), approximated: false };
+    return { item: curr, approximated: true };
+  }
+
+  // bâtiments : l'illustration garde son orientation, seules les entrées sont retournées
+  const options = hasSegments ? mirrorSegments(curr.options, curr.size.w, curr.size.h, axis) : curr.options;
+  return { item: normalizeOptions({ ...curr, options }), approximated: true };
+}
+
+// -------------------------------------------------------------------------
+// Zones
+
+type Region = { top: number; left: number; h: number; w: number };
+
+/** Nouvelle ancre d'une emprise (r, c, w, h) après transformation de la zone, en coordonnées locales. */
+function transformRect(r: number, c: number, w: number, h: number, region: Pick<Region, "w" | "h">, op: BoardTransform) {
+  switch (op) {
+    case "rotate90":
+      return { r: c, c: region.h - (r + h) };
+    case "rotate180":
+      return { r: region.h - (r + h), c: region.w - (c + w) };
+    case "mirrorH":
+      return { r, c: region.w - (c + w) };
+    case "mirrorV":
+      return { r: region.h - (r + h), c };
+  }
+}
+
+function transformAnchors(anchors: Array<{ key: string; item: PlacedItem }>, region: Region, op: BoardTransform) {
+  let approximated = 0;
+  const placed = anchors.map(({ key, item }) => {
+    const { r, c } = getCellRC(key);
+    const local = transformRect(r - region.top, c - region.left, item.size.w, item.size.h, region, op);
+    const next = transformItem(item, op);
+    if (next.approximated) approximated++;
+    return { key: `${region.top + local.r},${region.left + local.c}`, item: next.item };
+  });
+  return { placed, approximated };
+}
+
+function approximationWarning(count: number) {
+  if (!count) return [];
+  return [
+    `${count} tuile${count > 1 ? "s" : ""} ne peu${count > 1 ? "vent" : "t"} pas être retournée${count > 1 ? "s" : ""} : l’illustration garde son orientation, seules les entrées sont inversées.`,
+  ];
+}
+
+export type TransformResult = { rows: number; cols: number; grid: Record<string, Cell>; warnings: string[] };
+
+/** Plateau entier ; une rotation de 90° échange lignes et colonnes. */
+export function transformBoard(board: Pick<BoardSnapshot, "rows" | "cols" | "grid">, op: BoardTransform): TransformResult {
+  const swap = op === "rotate90";
+  const rows = swap ? board.cols : board.rows;
+  const cols = swap ? board.rows : board.cols;
+
+  if (rows > BOARD_SIZE_LIMITS.rows.max) {
+    throw new Error(`Impossible de pivoter : le plateau aurait ${rows} lignes (maximum ${BOARD_SIZE_LIMITS.rows.max}).`);
+  }
+  if (cols > BOARD_SIZE_LIMITS.cols.max) {
+    throw new Error(`Impossible de pivoter : le plateau aurait ${cols} colonnes (maximum ${BOARD_SIZE_LIMITS.cols.max}).`);
+  }
+
+  const ids = Object.values(board.grid).flatMap((cell) => (cell && isAnchor(cell) ? [cell.item.id] : []));
+  const anchors = getAnchorsByIds(board.grid, ids);
+  const { placed, approximated } = transformAnchors(anchors, { top: 0, left: 0, h: board.rows, w: board.cols }, op);
+
+  const grid = makeEmptyGrid(rows, cols);
+  for (const { key, item } of placed) writeItemAtAnchor(grid, key, item);
+
+  return { rows, cols, grid, warnings: approximationWarning(approximated) };
+}
+
+/**
+ * Sélection : transformée dans son rectangle englobant (même coin haut-gauche).
+ * Tout ou rien : null si une tuile sortirait du plateau ou chevaucherait une tuile non sélectionnée.
+ */
+export function transformSelection(grid: Record<string, Cell>, ids: string[], rows: number, cols: number, op: BoardTransform): TransformResult | null {
+  const anchors = getAnchorsByIds(grid, ids);
+  if (anchors.length === 0) return null;
+
+  const rects = anchors.map(({ key, item }) => ({ ...getCellRC(key), ...item.size }));
+  const top = Math.min(...rects.map((a) => a.r));
+  const left = Math.min(...rects.map((a) => a.c));
+  const h = Math.max(...rects.map((a) => a.r + a.h)) - top;
+  const w = Math.max(...rects.map((a) => a.c + a.w)) - left;
+
+  const { placed, approximated } = transformAnchors(anchors, { top, left, h, w }, op);
+
+  const next = removeItems(grid, ids);
+  for (const { key, item } of placed) {
+    if (!canPlaceAt(key, item, next, rows, cols)) return null;
+    writeItemAtAnchor(next, key, item);
+  }
+
+  return { rows, cols, grid: next, warnings: approximationWarning(approximated) };
+}
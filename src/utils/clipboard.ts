@@ -0,0 +1,34 @@
+// Copie de texte avec repli execCommand pour les contextes non sécurisés (http, vieux navigateurs).
+// Rejette si aucune des deux méthodes n'a copié : à l'appelant de montrer le texte à copier à la main.
+export async function copyText(text: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    const ta = document.createElement("textarea");
+    ta.value = text;
+    document.body.appendChild(ta);
+    let ok: boolean;
+    try {
+      ta.select();
+      ok = document.execCommand("copy");
+    } finally {
+      document.body.removeChild(ta);
+    }
+    if (!ok) throw new Error("Copie refusée par le navigateur.");
+  }
+}
+
+/**
+ * Copie d'une image PNG dans le presse-papiers (API Clipboard asynchrone).
+ * Accepte une promesse : Safari exige que le ClipboardItem soit créé pendant le clic.
+ * Renvoie false si le navigateur ne sait pas écrire d'image : à l'appelant de proposer un repli.
+ */
+export async function copyImage(png: Blob | Promise<Blob>) {
+  if (typeof ClipboardItem === "undefined" || !navigator.clipboard?.write) return false;
+  try {
+    await navigator.clipboard.write([new ClipboardItem({ "image/png": png })]);
+    return true;
+  } catch {
+    return false;
+  }
+}
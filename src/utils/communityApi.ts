@@ -0,0 +1,107 @@
+import type { BoardSnapshot } from "../views/BoardBuilder";
+import { documentToSnapshot, snapshotToDocument, type BoardDocument } from "./boardFormat";
+import { describeValidation, validateBoard } from "./boardRules";
+
+/**
+ * Client de l'API communautaire.
+ * Base configurable via VITE_COMMUNITY_API_URL ; par défaut "/api", servi en local
+ * par le mock Vite (server/communityMock.ts).
+ */
+export type CommunityCreation = {
+  id: string;
+  title: string;
+  boardName: string;
+  publishedAt: string; // ISO
+  board: BoardDocument;
+  thumbnail: string | null; // data URL
+};
+
+export type CommunityPage = {
+  items: CommunityCreation[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export type PublishInput = {
+  title: string;
+  boardName: string;
+  board: BoardDocument;
+  thumbnail: string | null;
+};
+
+/** Erreur renvoyée par l'API (status = code HTTP, 0 si le serveur est injoignable). */
+export class CommunityApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "CommunityApiError";
+    this.status = status;
+  }
+}
+
+const API_BASE = (import.meta.env.VITE_COMMUNITY_API_URL ?? "/api").replace(/\/+$/, "");
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: { Accept: "application/json", ...(init?.body ? { "Content-Type": "application/json" } : {}), ...init?.headers },
+    });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "AbortError") throw e;
+    throw new CommunityApiError("Serveur communautaire injoignable.", 0);
+  }
+
+  const body = (await res.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!res.ok) throw new CommunityApiError(body?.error ?? `Erreur du serveur (${res.status}).`, res.status);
+  if (body === null) throw new CommunityApiError("Réponse du serveur illisible.", res.status);
+  return body;
+}
+
+export function listCreations(args: { q?: string; page?: number; pageSize?: number }, signal?: AbortSignal) {
+  const params = new URLSearchParams();
+  if (args.q?.trim()) params.set("q", args.q.trim());
+  params.set("page", String(args.page ?? 1));
+  params.set("pageSize", String(args.pageSize ?? 10));
+  return request<CommunityPage>(`/community?${params.toString()}`, { signal });
+}
+
+/** Renvoie null si la création n'existe pas (404). */
+export async function getCreation(id: string, signal?: AbortSignal): Promise<CommunityCreation | null> {
+  try {
+    return await request<CommunityCreation>(`/community/${encodeURIComponent(id)}`, { signal });
+  } catch (e) {
+    if (e instanceof CommunityApiError && e.status === 404) return null;
+    throw e;
+  }
+}
+
+export function publishCreation(input: PublishInput) {
+  return request<CommunityCreation>("/community", { method: "POST", body: JSON.stringify(input) });
+}
+
+/**
+ * Vérifications minimales avant publication : renvoie la liste des problèmes (vide si la carte est publiable).
+ */
+export function getPublishBlockers(board: BoardSnapshot): string[] {
+  const blockers: string[] = [];
+  const doc = snapshotToDocument(board);
+
+  if (doc.items.length === 0) blockers.push("Le plateau est vide : placez au moins une tuile.");
+  if (!doc.boardName.trim()) blockers.push("Donnez un nom à la carte.");
+
+  const rules = validateBoard(board);
+  if (doc.items.length > 0 && rules.errors > 0) blockers.push(`Le plateau n’est pas jouable (${describeValidation(rules)}) : corrigez les erreurs signalées.`);
+
+  // le document doit pouvoir être relu tel quel par les autres joueurs
+  try {
+    documentToSnapshot(doc);
+  } catch (e) {
+    blockers.push(e instanceof Error ? e.message : "Plateau invalide.");
+  }
+
+  return blockers;
+}
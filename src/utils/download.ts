@@ -0,0 +1,18 @@
+// Nom de fichier sans caractères interdits (Windows/macOS)
+export function safeFileName(s: string, fallback = "plateau") {
+  const v = (s || fallback).trim();
+  const cleaned = v.replace(/[\\/:*?"<>|]+/g, "-");
+  return cleaned.length ? cleaned : fallback;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // laisse le temps au navigateur de démarrer le téléchargement
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,271 @@
+import type { Cell, PlacedItem, PlacedOptions, TileRotation, TileType } from "../views/BoardBuilder";
+
+// Modèle de la grille : clés "r,c", une cellule "anchor" porte la tuile,
+// les autres cellules couvertes par son footprint sont des "shadow" pointant vers l'ancre.
+
+export const uid = () => Math.random().toString(16).slice(2) + Date.now().toString(16);
+
+export function getCellRC(cellKey: string) {
+  const [rStr, cStr] = cellKey.split(",");
+  return { r: Number(rStr), c: Number(cStr) };
+}
+
+/** Position lisible d'une case, pour les lecteurs d'écran : « ligne 2, colonne 3 ». */
+export function getCellLabel(cellKey: string) {
+  const { r, c } = getCellRC(cellKey);
+  return `ligne ${r + 1}, colonne ${c + 1}`;
+}
+
+export function isAnchor(cell: Cell): cell is { kind: "anchor"; item: PlacedItem } {
+  return !!cell && cell.kind === "anchor";
+}
+
+export function isShadow(cell: Cell): cell is { kind: "shadow"; anchorKey: string } {
+  return !!cell && cell.kind === "shadow";
+}
+
+export function getAnchorKeyFromCellKey(cellKey: string, grid: Record<string, Cell>): string | null {
+  const cell = grid[cellKey];
+  if (!cell) return null;
+  if (isAnchor(cell)) return cellKey;
+  if (isShadow(cell)) return cell.anchorKey;
+  return null;
+}
+
+export function getAnchorItem(cellKey: string, grid: Record<string, Cell>): PlacedItem | null {
+  const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
+  if (!anchorKey) return null;
+  const cell = grid[anchorKey];
+  if (cell && isAnchor(cell)) return cell.item;
+  return null;
+}
+
+export function getFootprint(it: Pick<PlacedItem, "size">) {
+  const { w, h } = it.size;
+  return { w, h };
+}
+
+export function getCellsForFootprint(anchorKey: string, fp: { w: number; h: number }) {
+  const { r, c } = getCellRC(anchorKey);
+  const out: string[] = [];
+  for (let dy = 0; dy < fp.h; dy++) {
+    for (let dx = 0; dx < fp.w; dx++) out.push(`${r + dy},${c + dx}`);
+  }
+  return out;
+}
+
+export function canPlaceAt(targetCell: string, itemLike: Pick<PlacedItem, "size">, grid: Record<string, Cell>, rows: number, cols: number) {
+  const fp = getFootprint(itemLike);
+  const { r, c } = getCellRC(targetCell);
+
+  if (r < 0 || c < 0) return false;
+  if (r + fp.h > rows) return false;
+  if (c + fp.w > cols) return false;
+
+  const keys = getCellsForFootprint(targetCell, fp);
+  return keys.every((k) => grid[k] === null);
+}
+
+export function writeItemAtAnchor(next: Record<string, Cell>, anchorKey: string, item: PlacedItem) {
+  const fp = getFootprint(item);
+  const keys = getCellsForFootprint(anchorKey, fp);
+
+  next[anchorKey] = { kind: "anchor", item };
+  for (const k of keys) {
+    if (k === anchorKey) continue;
+    next[k] = { kind: "shadow", anchorKey };
+  }
+}
+
+export function clearItemByAnchor(next: Record<string, Cell>, anchorKey: string) {
+  const cell = next[anchorKey];
+  if (!cell || !isAnchor(cell)) return;
+
+  const fp = getFootprint(cell.item);
+  const keys = getCellsForFootprint(anchorKey, fp);
+  for (const k of keys) next[k] = null;
+}
+
+export function makeEmptyGrid(rows: number, cols: number) {
+  const init: Record<string, Cell> = {};
+  for (let r = 0; r < rows; r++) for (let c = 0; c < cols; c++) init[`${r},${c}`] = null;
+  return init;
+}
+
+// Redimensionne en gardant les tuiles qui tiennent encore entièrement (ancre + footprint)
+export function resizeGrid(grid: Record<string, Cell>, rows: number, cols: number) {
+  const next = makeEmptyGrid(rows, cols);
+  const dropped: PlacedItem[] = [];
+
+  for (const [key, cell] of Object.entries(grid)) {
+    if (!cell || !isAnchor(cell)) continue;
+    if (canPlaceAt(key, cell.item, next, rows, cols)) writeItemAtAnchor(next, key, cell.item);
+    else dropped.push(cell.item);
+  }
+
+  return { grid: next, dropped };
+}
+
+export function getTileRotation(it: Pick<PlacedItem, "options">): TileRotation {
+  const v = it.options.rotation;
+  return (v === 0 || v === 90 || v === 180 || v === 270 ? v : 0) as TileRotation;
+}
+
+export function getDefaultOptions(tileType: TileType, size?: { w: number; h: number }): PlacedOptions {
+  const w = size?.w ?? 1;
+  const h = size?.h ?? 1;
+
+  switch (tileType) {
+    case "road":
+      return { alien: false, school_bus: false, city_bus: false, rotation: 0 };
+
+    case "school":
+    case "safe_place":
+      return {
+        rotation: 0,
+        topSegments: Array.from({ length: w }, () => false),
+        bottomSegments: Array.from({ length: w }, () => false),
+        leftSegments: Array.from({ length: h }, () => false),
+        rightSegments: Array.from({ length: h }, () => false),
+      };
+
+    default:
+      return { rotation: 0 };
+  }
+}
+
+export function normalizeOptions(it: PlacedItem): PlacedItem {
+  const baseW = it.baseSize?.w ?? it.size.w;
+  const baseH = it.baseSize?.h ?? it.size.h;
+
+  const defaults = getDefaultOptions(it.tileType, { w: baseW, h: baseH });
+  const merged: PlacedOptions = { ...defaults, ...(it.options ?? {}) };
+
+  merged.rotation = (merged.rotation === 90 || merged.rotation === 180 || merged.rotation === 270 ? merged.rotation : 0) as TileRotation;
+
+  const rot = merged.rotation as TileRotation;
+  const swap = rot === 90 || rot === 270;
+  const expectedSize = swap ? { w: baseH, h: baseW } : { w: baseW, h: baseH };
+  const nextSize = { w: expectedSize.w, h: expectedSize.h };
+
+  if (it.tileType === "school" || it.tileType === "safe_place") {
+    const w = nextSize.w;
+    const h = nextSize.h;
+
+    const top = (merged.topSegments ?? []) as boolean[];
+    const bottom = (merged.bottomSegments ?? []) as boolean[];
+    const left = (merged.leftSegments ?? []) as boolean[];
+    const right = (merged.rightSegments ?? []) as boolean[];
+
+    merged.topSegments = Array.from({ length: w }, (_, i) => !!top[i]);
+    merged.bottomSegments = Array.from({ length: w }, (_, i) => !!bottom[i]);
+    merged.leftSegments = Array.from({ length: h }, (_, i) => !!left[i]);
+    merged.rightSegments = Array.from({ length: h }, (_, i) => !!right[i]);
+  }
+
+  if (it.tileType === "road") {
+    merged.alien = !!merged.alien;
+    merged.school_bus = !!merged.school_bus;
+    merged.city_bus = !!merged.city_bus;
+  }
+
+  return { ...it, baseSize: { w: baseW, h: baseH }, size: nextSize, options: merged };
+}
+
+export function getRectsForCell(cellKey: string, grid: Record<string, Cell>) {
+  const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
+  if (!anchorKey) return { top: false, right: false, bottom: false, left: false };
+
+  const it = getAnchorItem(anchorKey, grid);
+  if (!it) return { top: false, right: false, bottom: false, left: false };
+
+  const { r: ar, c: ac } = getCellRC(anchorKey);
+  const { r: cr, c: cc } = getCellRC(cellKey);
+
+  const dx = cc - ac;
+  const dy = cr - ar;
+
+  const w = it.size.w;
+  const h = it.size.h;
+
+  if (it.tileType === "school" || it.tileType === "safe_place") {
+    const topSegments = (it.options.topSegments ?? []) as boolean[];
+    const bottomSegments = (it.options.bottomSegments ?? []) as boolean[];
+    const leftSegments = (it.options.leftSegments ?? []) as boolean[];
+    const rightSegments = (it.options.rightSegments ?? []) as boolean[];
+
+    const top = dy === 0 ? !!topSegments[dx] : false;
+    const bottom = dy === h - 1 ? !!bottomSegments[dx] : false;
+    const left = dx === 0 ? !!leftSegments[dy] : false;
+    const right = dx === w - 1 ? !!rightSegments[dy] : false;
+
+    return { top, right, bottom, left };
+  }
+
+  return { top: false, right: false, bottom: false, left: false };
+}
+
+// ---------------------------------------------------------------------
+// Rendu d'une cellule : quelle portion de l'image (non tournée) afficher
+
+/** Cellule (dx, dy) du footprint affiché → cellule (sx, sy) de l'image source avant rotation. */
+export function mapDisplayToSource(dx: number, dy: number, baseW: number, baseH: number, rot: TileRotation) {
+  switch (rot) {
+    case 0:
+      return { sx: dx, sy: dy };
+    case 90:
+      return { sx: dy, sy: baseH - 1 - dx };
+    case 180:
+      return { sx: baseW - 1 - dx, sy: baseH - 1 - dy };
+    case 270:
+      return { sx: baseW - 1 - dy, sy: dx };
+  }
+}
+
+/** background-size / background-position pour n'afficher que la tranche (dx, dy) d'une tuile multi-cases. */
+export function getSliceBackground(it: Pick<PlacedItem, "baseSize" | "options">, dx: number, dy: number) {
+  const baseW = it.baseSize.w;
+  const baseH = it.baseSize.h;
+  const { sx, sy } = mapDisplayToSource(dx, dy, baseW, baseH, getTileRotation(it));
+
+  const xPct = baseW <= 1 ? 50 : (sx / (baseW - 1)) * 100;
+  const yPct = baseH <= 1 ? 50 : (sy / (baseH - 1)) * 100;
+
+  return { backgroundSize: `${baseW * 100}% ${baseH * 100}%`, backgroundPosition: `${xPct}% ${yPct}%` };
+}
+
+/**
+ * z-index d'une cellule : les entrées débordent sur les voisines,
+ * on fait passer l'école devant, puis les cellules dont l'entrée touche celle d'une voisine.
+ */
+export function computeCellZIndex(cellKey: string, grid: Record<string, Cell>, rows: number, cols: number): number {
+  const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
+  const it = anchorKey ? getAnchorItem(anchorKey, grid) : null;
+
+  const selfRects = getRectsForCell(cellKey, grid);
+  const hasAny = selfRects.top || selfRects.right || selfRects.bottom || selfRects.left;
+  if (!hasAny) return 1;
+
+  if (it?.tileType === "school") return 1000;
+
+  const { r, c } = getCellRC(cellKey);
+
+  const topKey = r > 0 ? `${r - 1},${c}` : null;
+  const bottomKey = r < rows - 1 ? `${r + 1},${c}` : null;
+  const leftKey = c > 0 ? `${r},${c - 1}` : null;
+  const rightKey = c < cols - 1 ? `${r},${c + 1}` : null;
+
+  const topRects = topKey ? getRectsForCell(topKey, grid) : null;
+  const bottomRects = bottomKey ? getRectsForCell(bottomKey, grid) : null;
+  const leftRects = leftKey ? getRectsForCell(leftKey, grid) : null;
+  const rightRects = rightKey ? getRectsForCell(rightKey, grid) : null;
+
+  let hasConflict = false;
+
+  if (selfRects.top && bottomRects?.bottom) hasConflict = true;
+  if (selfRects.bottom && topRects?.top) hasConflict = true;
+  if (selfRects.left && rightRects?.right) hasConflict = true;
+  if (selfRects.right && leftRects?.left) hasConflict = true;
+
+  return hasConflict ? 20 : 5;
+}
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Pile d'historique (undo/redo) autour d'un état immuable.
+ * - chaque appel à `update` qui modifie l'état pousse une étape
+ * - les appels faits dans le même tick (ex: les 3 setSelectedOption d'un Toggle) sont fusionnés
+ * - `coalesceKey` permet de fusionner une suite d'éditions du même genre (ex: saisie du nom)
+ * - passé/futur sont bornés à `limit` et persistés en localStorage
+ */
+type HistoryState<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  // groupe de la dernière étape, pour fusionner les éditions suivantes
+  lastGroup: string | null;
+};
+
+type PersistedHistory<S> = { past: S[]; future: S[] };
+
+type Options<T, S> = {
+  storageKey: string;
+  limit: number;
+  serialize: (v: T) => S;
+  deserialize: (raw: S) => T | null;
+};
+
+export type UpdateOptions = { coalesceKey?: string };
+
+function loadPersisted<T, S>(opts: Options<T, S>): { past: T[]; future: T[] } {
+  try {
+    const raw = localStorage.getItem(opts.storageKey);
+    if (!raw) return { past: [], future: [] };
+    const parsed = JSON.parse(raw) as PersistedHistory<S>;
+
+    const revive = (arr: unknown) =>
+      (Array.isArray(arr) ? (arr as S[]) : [])
+        .map((s) => opts.deserialize(s))
+        .filter((v): v is T => v !== null)
+        .slice(-opts.limit);
+
+    return { past: revive(parsed.past), future: revive(parsed.future) };
+  } catch {
+    return { past: [], future: [] };
+  }
+}
+
+export function useHistoryState<T, S = T>(init: () => T, opts: Options<T, S>) {
+  const [state, setState] = useState<HistoryState<T>>(() => {
+    const { past, future } = loadPersisted(opts);
+    return { past, present: init(), future, lastGroup: null };
+  });
+
+  // Jeton du tick courant : toutes les mises à jour synchrones partagent le même
+  const tickRef = useRef<string | null>(null);
+  const tickSeq = useRef(0);
+
+  const update = useCallback((updater: (prev: T) => T, updateOpts?: UpdateOptions) => {
+    if (!tickRef.current) {
+      tickSeq.current += 1;
+      tickRef.current = `tick:${tickSeq.current}`;
+      queueMicrotask(() => {
+        tickRef.current = null;
+      });
+    }
+
+    const group = updateOpts?.coalesceKey ? `key:${updateOpts.coalesceKey}` : tickRef.current;
+    const limit = opts.limit;
+
+    setState((h) => {
+      const next = updater(h.present);
+      if (next === h.present) return h;
+
+      if (h.lastGroup === group) {
+        return { ...h, present: next, future: [] };
+      }
+
+      return {
+        past: [...h.past, h.present].slice(-limit),
+        present: next,
+        future: [],
+        lastGroup: group,
+      };
+    });
+  }, [opts.limit]);
+
+  const undo = useCallback(() => {
+    setState((h) => {
+      if (!h.past.length) return h;
+      const prev = h.past[h.past.length - 1];
+      return {
+        past: h.past.slice(0, -1),
+        present: prev,
+        future: [h.present, ...h.future].slice(0, opts.limit),
+        lastGroup: null,
+      };
+    });
+  }, [opts.limit]);
+
+  const redo = useCallback(() => {
+    setState((h) => {
+      if (!h.future.length) return h;
+      const [next, ...rest] = h.future;
+      return {
+        past: [...h.past, h.present].slice(-opts.limit),
+        present: next,
+        future: rest,
+        lastGroup: null,
+      };
+    });
+  }, [opts.limit]);
+
+  const { storageKey, serialize } = opts;
+
+  // autre plateau ouvert : on repart d'un historique vide, les étapes de l'ancien ne doivent pas s'y appliquer
+  const reset = useCallback(
+    (next: T) => {
+      setState({ past: [], present: next, future: [], lastGroup: null });
+      try {
+        localStorage.removeItem(storageKey);
+      } catch {
+        // stockage indisponible : l'historique vide sera réécrit plus tard
+      }
+    },
+    [storageKey]
+  );
+
+  useEffect(() => {
+    const t = window.setTimeout(() => {
+      try {
+        const payload: PersistedHistory<S> = { past: state.past.map(serialize), future: state.future.map(serialize) };
+        localStorage.setItem(storageKey, JSON.stringify(payload));
+      } catch {
+        // quota dépassé : on garde l'historique en mémoire seulement
+      }
+    }, 300);
+    return () => window.clearTimeout(t);
+  }, [state.past, state.future, storageKey, serialize]);
+
+  return {
+    present: state.present,
+    update,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
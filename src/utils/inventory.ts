@@ -0,0 +1,169 @@
+import type { Cell, RoadOptions, TileType } from "../views/BoardBuilder";
+import { isAnchor } from "./grid";
+import { PALETTE } from "./palette";
+
+/**
+ * Inventaire du plateau (liste de matériel) : tuiles posées par modèle et par famille,
+ * overlays de route, entrées, comparés aux pièces possédées.
+ */
+
+// type de tuile (palette) → nombre de pièces possédées ; type absent = pas de limite
+export type OwnedStock = Record<string, number>;
+
+export type InventoryLine = {
+  type: string;
+  name: string;
+  tileType: TileType;
+  count: number;
+  owned: number | null; // null : pas de limite renseignée
+  missing: number; // pièces utilisées au-delà du stock
+};
+
+export type BoardInventory = {
+  lines: InventoryLine[]; // une ligne par modèle de la palette, dans l'ordre de la palette
+  byTileType: Record<TileType, number>;
+  overlays: Record<keyof RoadOptions, number>;
+  entrances: { school: number; safe_place: number };
+  total: number;
+};
+
+export const TILE_TYPE_LABELS: Record<TileType, string> = {
+  road: "Routes",
+  school: "Écoles",
+  safe_place: "Zones sûres",
+};
+
+export const OVERLAY_LABELS: Record<keyof RoadOptions, string> = {
+  alien: "Alien",
+  school_bus: "Bus scolaire",
+  city_bus: "Bus municipal",
+};
+
+const SEGMENT_KEYS = ["topSegments", "bottomSegments", "leftSegments", "rightSegments"] as const;
+
+/**
+ * Préréglages de stock donnés en exemple : les quantités sont indicatives, pas la liste officielle
+ * du contenu des boîtes. À ajuster dans l'inventaire d'après sa propre boîte (chaque nombre reste modifiable).
+ */
+const BASE_BOX: OwnedStock = {
+  "crossroads-1x1": 4,
+  "curve_road-1x1": 8,
+  "straight_road-1x1": 8,
+  "end_road-1x1": 4,
+  "forest-1x1": 4,
+  "school-1x1": 1,
+  "school-2x1": 1,
+  "library-2x1": 1,
+  "library_bis-2x1": 1,
+  "house_2-1x1": 2,
+  "house_3-1x1": 2,
+  "house_5-1x1": 2,
+  "manor_7-1x1": 1,
+  "manor_8-1x1": 1,
+  "parc-1x1": 2,
+  "parc-2x1": 1,
+  "gymnasium-3x1": 1,
+  "secret_club-1x2": 1,
+  "prom-2x1": 1,
+  "swimming_pool-1x2": 1,
+  "swimming_pool-1x3": 1,
+  "empty-1x1": 4,
+  "empty-2x1": 2,
+  "empty-1x2": 2,
+};
+
+const EXTENSION_BOX: OwnedStock = {
+  "crossroads-1x1": 2,
+  "curve_road-1x1": 4,
+  "straight_road-1x1": 4,
+  "end_road-1x1": 2,
+  "forest-1x1": 2,
+  "house_2-1x1": 1,
+  "house_3-1x1": 1,
+  "house_5-1x1": 1,
+  "manor_7-1x1": 1,
+  "manor_8-1x1": 1,
+  "parc-1x1": 1,
+  "empty-1x1": 2,
+};
+
+function addStock(a: OwnedStock, b: OwnedStock): OwnedStock {
+  const out = { ...a };
+  for (const [type, n] of Object.entries(b)) out[type] = (out[type] ?? 0) + n;
+  return out;
+}
+
+export const STOCK_PRESETS: Array<{ id: string; label: string; stock: OwnedStock }> = [
+  { id: "unlimited", label: "Illimité", stock: {} },
+  { id: "base", label: "Exemple : boîte de base", stock: BASE_BOX },
+  { id: "base_extension", label: "Exemple : base + extension", stock: addStock(BASE_BOX, EXTENSION_BOX) },
+];
+
+/** Préréglage identique au stock courant, sinon null (stock personnalisé). */
+export function findStockPreset(stock: OwnedStock) {
+  const same = (a: OwnedStock, b: OwnedStock) => Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([k, v]) => b[k] === v);
+  return STOCK_PRESETS.find((p) => same(p.stock, stock)) ?? null;
+}
+
+/** Nombre de tuiles posées par type. */
+export function countPlacedByType(grid: Record<string, Cell>) {
+  const counts: Record<string, number> = {};
+  for (const cell of Object.values(grid)) {
+    if (cell && isAnchor(cell)) counts[cell.item.type] = (counts[cell.item.type] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/** Pièces encore disponibles par type (null : pas de limite). */
+export function getRemainingStock(grid: Record<string, Cell>, stock: OwnedStock): Record<string, number | null> {
+  const placed = countPlacedByType(grid);
+  return Object.fromEntries(PALETTE.map((p) => [p.type, p.type in stock ? Math.max(0, stock[p.type] - (placed[p.type] ?? 0)) : null]));
+}
+
+/** Stock lu depuis le stockage local : on ne garde que des entiers positifs pour des types connus. */
+export function normalizeStock(raw: unknown): OwnedStock {
+  const out: OwnedStock = {};
+  if (!raw || typeof raw !== "object") return out;
+
+  for (const p of PALETTE) {
+    const v = (raw as Record<string, unknown>)[p.type];
+    if (typeof v === "number" && Number.isFinite(v) && v >= 0) out[p.type] = Math.floor(v);
+  }
+  return out;
+}
+
+export function computeInventory(grid: Record<string, Cell>, stock: OwnedStock = {}): BoardInventory {
+  const counts = new Map<string, number>();
+  const byTileType: Record<TileType, number> = { road: 0, school: 0, safe_place: 0 };
+  const overlays: Record<keyof RoadOptions, number> = { alien: 0, school_bus: 0, city_bus: 0 };
+  const entrances = { school: 0, safe_place: 0 };
+  let total = 0;
+
+  for (const cell of Object.values(grid)) {
+    if (!cell || !isAnchor(cell)) continue;
+    const it = cell.item;
+
+    total++;
+    counts.set(it.type, (counts.get(it.type) ?? 0) + 1);
+    byTileType[it.tileType]++;
+
+    if (it.tileType === "road") {
+      for (const key of Object.keys(overlays) as Array<keyof RoadOptions>) if (it.options[key]) overlays[key]++;
+    } else {
+      for (const key of SEGMENT_KEYS) entrances[it.tileType] += ((it.options[key] ?? []) as boolean[]).filter(Boolean).length;
+    }
+  }
+
+  const lines = PALETTE.map((p): InventoryLine => {
+    const count = counts.get(p.type) ?? 0;
+    const owned = stock[p.type] ?? null;
+    return { type: p.type, name: p.name, tileType: p.tileType, count, owned, missing: owned === null ? 0 : Math.max(0, count - owned) };
+  });
+
+  return { lines, byTileType, overlays, entrances, total };
+}
+
+/** Modèles utilisés plus souvent que le nombre de pièces possédées. */
+export function getStockShortages(inventory: BoardInventory) {
+  return inventory.lines.filter((l) => l.missing > 0);
+}
@@ -1,9 +1,24 @@
-export function isMobile(): boolean {
-  if (typeof window === "undefined") return false;
+import { useCallback, useSyncExternalStore } from "react";
 
-  const isTouch = "ontouchstart" in window || navigator.maxTouchPoints > 0;
+// téléphone / petite tablette en portrait : palette et options passent en panneaux du bas
+export const COMPACT_LAYOUT_QUERY = "(max-width: 768px)";
 
-  const isSmallScreen = window.matchMedia("(max-width: 768px)").matches;
+// écran tactile ou stylet comme pointeur principal : pas de drag HTML5, on passe par les pointer events
+export const COARSE_POINTER_QUERY = "(pointer: coarse)";
 
-  return isTouch && isSmallScreen;
+export function useMediaQuery(query: string): boolean {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const mql = window.matchMedia(query);
+      mql.addEventListener("change", onChange);
+      return () => mql.removeEventListener("change", onChange);
+    },
+    [query]
+  );
+
+  return useSyncExternalStore(
+    subscribe,
+    () => window.matchMedia(query).matches,
+    () => false
+  );
 }
@@ -0,0 +1,40 @@
+import type { PaletteItem } from "../views/BoardBuilder";
+
+// Toutes les tuiles disponibles dans l'éditeur.
+// L'index sert d'identifiant dans les liens de partage (utils/shareLink) : toujours ajouter en fin de liste.
+// roadEdges : côtés par lesquels la route sort de la tuile, rotation 0 (voir utils/roadGraph).
+export const PALETTE: PaletteItem[] = [
+  { type: "crossroads-1x1", tileType: "road", name: "Croisement", colorClass: "bg-slate-600", size: { w: 1, h: 1 }, roadEdges: ["top", "right", "bottom", "left"] },
+  { type: "curve_road-1x1", tileType: "road", name: "Virage", colorClass: "bg-slate-600", size: { w: 1, h: 1 }, roadEdges: ["top", "right"] },
+  { type: "straight_road-1x1", tileType: "road", name: "Ligne droite", colorClass: "bg-slate-600", size: { w: 1, h: 1 }, roadEdges: ["left", "right"] },
+  { type: "end_road-1x1", tileType: "road", name: "Cul-de-sac", colorClass: "bg-slate-600", size: { w: 1, h: 1 }, roadEdges: ["left"] },
+  { type: "forest-1x1", tileType: "road", name: "Forêt", colorClass: "bg-slate-600", size: { w: 1, h: 1 }, roadEdges: [] },
+
+  { type: "school-1x1", tileType: "school", name: "École", colorClass: "bg-gray-600", size: { w: 1, h: 1 } },
+  { type: "school-2x1", tileType: "school", name: "École (2x1)", colorClass: "bg-gray-600", size: { w: 2, h: 1 } },
+
+  { type: "library-2x1", tileType: "safe_place", name: "Bibliothèque", colorClass: "bg-blue-600", size: { w: 2, h: 1 } },
+  { type: "library_bis-2x1", tileType: "safe_place", name: "Bibliothèque", colorClass: "bg-blue-600", size: { w: 2, h: 1 } },
+  { type: "house_2-1x1", tileType: "safe_place", name: "Pavillon", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
+  { type: "house_3-1x1", tileType: "safe_place", name: "Pavillon", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
+  { type: "house_5-1x1", tileType: "safe_place", name: "Pavillon", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
+  { type: "manor_7-1x1", tileType: "safe_place", name: "Manoir", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
+  { type: "manor_8-1x1", tileType: "safe_place", name: "Manoir", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
+
+  { type: "parc-1x1", tileType: "safe_place", name: "Parc", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
+  { type: "parc-2x1", tileType: "safe_place", name: "Parc (2x1)", colorClass: "bg-blue-600", size: { w: 2, h: 1 } },
+  { type: "gymnasium-3x1", tileType: "safe_place", name: "Gymnase", colorClass: "bg-blue-600", size: { w: 3, h: 1 } },
+  { type: "secret_club-1x2", tileType: "safe_place", name: "Club secret", colorClass: "bg-blue-600", size: { w: 1, h: 2 } },
+  { type: "prom-2x1", tileType: "safe_place", name: "Bal de promo", colorClass: "bg-blue-600", size: { w: 2, h: 1 } },
+
+  { type: "swimming_pool-1x2", tileType: "safe_place", name: "Piscine (1x2)", colorClass: "bg-blue-600", size: { w: 1, h: 2 } },
+  { type: "swimming_pool-1x3", tileType: "safe_place", name: "Piscine (1x3)", colorClass: "bg-blue-600", size: { w: 1, h: 3 } },
+
+  { type: "empty-1x1", tileType: "safe_place", name: "Espace vide", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
+  { type: "empty-2x1", tileType: "safe_place", name: "Espace vide (2x1)", colorClass: "bg-blue-600", size: { w: 2, h: 1 } },
+  { type: "empty-1x2", tileType: "safe_place", name: "Espace vide (1x2)", colorClass: "bg-blue-600", size: { w: 1, h: 2 } },
+];
+
+export function findPaletteItem(type: string) {
+  return PALETTE.find((p) => p.type === type) ?? null;
+}
@@ -0,0 +1,123 @@
+import { useRef, useState } from "react";
+
+// facteur de zoom et décalage en px du contenu zoomé par rapport au coin haut gauche de la zone
+export type PanZoomView = { zoom: number; x: number; y: number };
+
+const MAX_ZOOM = 4;
+const PAN_TOLERANCE_PX = 10;
+
+const INITIAL_VIEW: PanZoomView = { zoom: 1, x: 0, y: 0 };
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function clampView(v: PanZoomView, area: { w: number; h: number }): PanZoomView {
+  const zoom = clamp(v.zoom, 1, MAX_ZOOM);
+  return { zoom, x: clamp(v.x, area.w * (1 - zoom), 0), y: clamp(v.y, area.h * (1 - zoom), 0) };
+}
+
+type Options = {
+  mouse?: boolean; // la souris peut aussi faire glisser le plateau
+  paused?: boolean; // ex. pendant le glisser d'une tuile
+};
+
+/**
+ * Zoom et déplacement d'un plateau affiché dans une zone fixe :
+ * - pincer à deux doigts pour zoomer autour du milieu des doigts
+ * - glisser à un doigt (ou à la souris si `mouse`) pour se déplacer quand le plateau est zoomé
+ * - molette pour zoomer autour du curseur
+ * Le contenu zoomé couvre toujours la zone : pas de bord vide en glissant.
+ */
+export function usePanZoom(area: { w: number; h: number }, { mouse = false, paused = false }: Options = {}) {
+  const [view, setView] = useState<PanZoomView>(INITIAL_VIEW);
+
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<{ view: PanZoomView; mid: { x: number; y: number }; dist: number } | null>(null);
+  const movedRef = useRef(false);
+
+  function getPoints() {
+    const pts = [...pointersRef.current.values()];
+    const [a, b] = pts;
+    if (!b) return { mid: a, dist: 0, count: pts.length };
+    return { mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, dist: Math.hypot(a.x - b.x, a.y - b.y), count: pts.length };
+  }
+
+  function track(e: React.PointerEvent<HTMLElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    pointersRef.current.set(e.pointerId, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+  }
+
+  // repart de la position actuelle à chaque doigt posé ou levé
+  function restart(current: PanZoomView) {
+    const { mid, dist, count } = getPoints();
+    gestureRef.current = count ? { view: current, mid, dist } : null;
+  }
+
+  const bind = {
+    onPointerDown(e: React.PointerEvent<HTMLElement>) {
+      if (e.pointerType === "mouse" && (!mouse || e.button !== 0)) return;
+      if (pointersRef.current.size === 0) movedRef.current = false;
+      track(e);
+      restart(view);
+    },
+
+    onPointerMove(e: React.PointerEvent<HTMLElement>) {
+      if (!pointersRef.current.has(e.pointerId)) return;
+
+      // bouton relâché hors de la zone : ce glisser à la souris est terminé
+      if (e.pointerType === "mouse" && e.buttons === 0) {
+        pointersRef.current.delete(e.pointerId);
+        restart(view);
+        return;
+      }
+      track(e);
+
+      const g = gestureRef.current;
+      if (!g || paused) return;
+      const { mid, dist, count } = getPoints();
+
+      if (count >= 2 && g.dist > 0) {
+        const zoom = clamp((g.view.zoom * dist) / g.dist, 1, MAX_ZOOM);
+        const scale = zoom / g.view.zoom;
+        movedRef.current = true;
+        setView(clampView({ zoom, x: mid.x - (g.mid.x - g.view.x) * scale, y: mid.y - (g.mid.y - g.view.y) * scale }, area));
+      } else if (count === 1 && g.view.zoom > 1 && (movedRef.current || Math.hypot(mid.x - g.mid.x, mid.y - g.mid.y) > PAN_TOLERANCE_PX)) {
+        movedRef.current = true;
+        setView(clampView({ ...g.view, x: g.view.x + mid.x - g.mid.x, y: g.view.y + mid.y - g.mid.y }, area));
+      }
+    },
+
+    onPointerUp(e: React.PointerEvent<HTMLElement>) {
+      if (!pointersRef.current.delete(e.pointerId)) return;
+      restart(view);
+    },
+
+    onPointerCancel(e: React.PointerEvent<HTMLElement>) {
+      if (!pointersRef.current.delete(e.pointerId)) return;
+      restart(view);
+    },
+  };
+
+  function onWheel(e: React.WheelEvent<HTMLElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const at = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const zoom = clamp(view.zoom * Math.exp(-e.deltaY * 0.0015), 1, MAX_ZOOM);
+    const scale = zoom / view.zoom;
+    setView(clampView({ zoom, x: at.x - (at.x - view.x) * scale, y: at.y - (at.y - view.y) * scale }, area));
+  }
+
+  // style du contenu zoomé (rien à zoom 1 : l'impression et le rendu normal restent intacts)
+  const style: React.CSSProperties | undefined =
+    view.zoom > 1 ? { transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`, transformOrigin: "0 0" } : undefined;
+
+  return {
+    view,
+    style,
+    bind,
+    onWheel,
+    reset: () => setView(INITIAL_VIEW),
+    // un glisser ou un pincement vient de se terminer : le clic qui suit n'est pas un appui
+    wasGesture: () => movedRef.current,
+  };
+}
@@ -0,0 +1,383 @@
+import type { BoardSnapshot, PlacedItem } from "../views/BoardBuilder";
+import { getDefaultOptions, isAnchor, normalizeOptions } from "./grid";
+import { PALETTE } from "./palette";
+
+/**
+ * Mise en page de l'export PDF (papier, échelle, marges), sans dessin :
+ * partagée entre le générateur (boardPdf.ts) et l'aperçu de la fenêtre d'export.
+ * Toutes les mesures sont en centimètres.
+ */
+export type PdfPaper = "a4" | "a3" | "letter" | "legal" | "custom";
+export type PdfOrientation = "portrait" | "landscape";
+
+// "board" : plateau assemblé ; "tiles" : planches de tuiles à découper
+export type PdfExportMode = "board" | "tiles";
+export type TileSheetSource = "board" | "palette";
+
+export type PdfExportSettings = {
+  mode: PdfExportMode;
+  tileSource: TileSheetSource; // planches : tuiles posées ou palette complète
+  paper: PdfPaper;
+  customSize: { w: number; h: number }; // utilisé si paper === "custom"
+  orientation: "auto" | PdfOrientation; // auto : le moins de pages possible
+  cellCm: number; // 3 cm = tuiles officielles
+  marginCm: number;
+  inkSaver: boolean; // contours au lieu des aplats rouges
+  greyscale: boolean; // images en niveaux de gris, entrées hachurées plutôt que bleu / orange
+  inventoryAppendix: boolean; // page finale : liste des pièces utilisées
+};
+
+export type PageSize = { w: number; h: number };
+
+// dimensions en portrait
+export const PAPER_SIZES: Record<Exclude<PdfPaper, "custom">, PageSize & { label: string }> = {
+  a4: { label: "A4", w: 21.0, h: 29.7 },
+  a3: { label: "A3", w: 29.7, h: 42.0 },
+  letter: { label: "US Letter", w: 21.59, h: 27.94 },
+  legal: { label: "US Legal", w: 21.59, h: 35.56 },
+};
+
+export const PDF_SETTINGS_LIMITS = {
+  cellCm: { min: 1.5, max: 6 },
+  marginCm: { min: 0, max: 3 },
+  customSide: { min: 10, max: 120 },
+};
+
+export const DEFAULT_PDF_SETTINGS: PdfExportSettings = {
+  mode: "board",
+  tileSource: "board",
+  paper: "a4",
+  customSize: { w: 21.0, h: 29.7 },
+  orientation: "auto",
+  cellCm: 3,
+  marginCm: 0.6,
+  inkSaver: false,
+  greyscale: false,
+  inventoryAppendix: false,
+};
+
+function clampNumber(v: unknown, lim: { min: number; max: number }, fallback: number) {
+  const n = typeof v === "number" && Number.isFinite(v) ? v : fallback;
+  return Math.min(lim.max, Math.max(lim.min, n));
+}
+
+/** Réglages lus depuis le stockage ou un formulaire : on borne tout. */
+export function normalizePdfSettings(raw: Partial<PdfExportSettings> | null | undefined): PdfExportSettings {
+  const d = DEFAULT_PDF_SETTINGS;
+  const paper = raw?.paper && (raw.paper === "custom" || raw.paper in PAPER_SIZES) ? raw.paper : d.paper;
+  const orientation = raw?.orientation === "portrait" || raw?.orientation === "landscape" ? raw.orientation : "auto";
+
+  return {
+    mode: raw?.mode === "tiles" ? "tiles" : "board",
+    tileSource: raw?.tileSource === "palette" ? "palette" : "board",
+    paper,
+    customSize: {
+      w: clampNumber(raw?.customSize?.w, PDF_SETTINGS_LIMITS.customSide, d.customSize.w),
+      h: clampNumber(raw?.customSize?.h, PDF_SETTINGS_LIMITS.customSide, d.customSize.h),
+    },
+    orientation,
+    cellCm: clampNumber(raw?.cellCm, PDF_SETTINGS_LIMITS.cellCm, d.cellCm),
+    marginCm: clampNumber(raw?.marginCm, PDF_SETTINGS_LIMITS.marginCm, d.marginCm),
+    inkSaver: !!raw?.inkSaver,
+    greyscale: !!raw?.greyscale,
+    inventoryAppendix: !!raw?.inventoryAppendix,
+  };
+}
+
+export function getPageSize(settings: PdfExportSettings, orientation: PdfOrientation): PageSize {
+  const base = settings.paper === "custom" ? settings.customSize : PAPER_SIZES[settings.paper];
+  const w = Math.min(base.w, base.h);
+  const h = Math.max(base.w, base.h);
+  return orientation === "portrait" ? { w, h } : { w: h, h: w };
+}
+
+export function getPaperLabel(settings: PdfExportSettings) {
+  if (settings.paper !== "custom") return PAPER_SIZES[settings.paper].label;
+  return `${formatCm(settings.customSize.w)} × ${formatCm(settings.customSize.h)} cm`;
+}
+
+export function formatCm(v: number) {
+  return v.toLocaleString("fr-FR", { maximumFractionDigits: 2 });
+}
+
+// -------------------------------------------------------------------------
+// Page unique : cadre rouge, plateau, cartouche jaune, mentions à gauche
+
+const HEADER_H = 0.4;
+const FOOTER_H = 3.0;
+const LEFT_GUTTER = 1.0;
+const RIGHT_GUTTER = 0.6;
+export const NAME_BOX_GAP = 0.3;
+export const NAME_BOX_H = 0.8;
+
+export function getSinglePageLayout(rows: number, cols: number, page: PageSize, settings: PdfExportSettings) {
+  const cell = settings.cellCm;
+  const pad = settings.marginCm;
+
+  const frame = { x: pad, y: pad, w: page.w - 2 * pad, h: page.h - 2 * pad };
+
+  const gridW = cols * cell;
+  const gridH = rows * cell;
+
+  const area = {
+    x: frame.x + LEFT_GUTTER,
+    y: frame.y + HEADER_H,
+    w: frame.w - LEFT_GUTTER - RIGHT_GUTTER,
+    h: frame.h - HEADER_H - FOOTER_H,
+  };
+
+  const startX = gridW <= area.w ? area.x + (area.w - gridW) / 2 : area.x;
+  const startY = gridH <= area.h ? area.y + (area.h - gridH) / 2 : area.y;
+
+  const nameBox = { x: startX, y: startY + gridH + NAME_BOX_GAP, w: gridW * 0.5, h: NAME_BOX_H };
+  const fits = gridW <= area.w && gridH + NAME_BOX_GAP + NAME_BOX_H <= frame.h - HEADER_H;
+
+  return { frame, startX, startY, gridW, gridH, nameBox, fits, creditsX: frame.x + 0.55 };
+}
+
+// -------------------------------------------------------------------------
+// Plusieurs pages : un morceau par page, bandes de recouvrement, repères
+
+export const TILE_HEADER_H = 0.8; // bandeau « Feuille 2 / 6 — colonnes 5–8, lignes 1–6 »
+const TILE_OVERLAP = 1.0; // bande reprise de la page voisine
+
+/** Morceau du plateau imprimé sur une page : lignes [r0, r1[ et colonnes [c0, c1[. */
+export type PdfTile = {
+  index: number; // 1..n
+  r0: number;
+  r1: number;
+  c0: number;
+  c1: number;
+};
+
+export type BoardPdfPlan =
+  | { kind: "single"; orientation: PdfOrientation; page: PageSize; pageCount: 1 }
+  | {
+      kind: "tiled";
+      orientation: PdfOrientation;
+      page: PageSize;
+      across: number;
+      down: number;
+      tiles: PdfTile[];
+      pageCount: number;
+      overflow: boolean; // une seule case ne tient pas dans la zone imprimable
+    };
+
+function getOverlap(settings: PdfExportSettings) {
+  return Math.min(TILE_OVERLAP, settings.cellCm);
+}
+
+// découpe en parts égales : 10 colonnes sur 2 pages → 5 + 5 plutôt que 8 + 2
+function splitEvenly(count: number, parts: number) {
+  const out: Array<[number, number]> = [];
+  for (let i = 0; i < parts; i++) out.push([Math.round((i * count) / parts), Math.round(((i + 1) * count) / parts)]);
+  return out;
+}
+
+function planTiles(rows: number, cols: number, orientation: PdfOrientation, settings: PdfExportSettings) {
+  const page = getPageSize(settings, orientation);
+  const m = settings.marginCm;
+  const overlap = getOverlap(settings);
+
+  const availW = page.w - 2 * m - 2 * overlap;
+  const availH = page.h - 2 * m - TILE_HEADER_H - 2 * overlap;
+  const perPageX = Math.max(1, Math.floor(availW / settings.cellCm));
+  const perPageY = Math.max(1, Math.floor(availH / settings.cellCm));
+
+  const across = Math.ceil(cols / perPageX);
+  const down = Math.ceil(rows / perPageY);
+
+  const tiles: PdfTile[] = [];
+  for (const [r0, r1] of splitEvenly(rows, down)) {
+    for (const [c0, c1] of splitEvenly(cols, across)) tiles.push({ index: tiles.length + 1, r0, r1, c0, c1 });
+  }
+
+  const overflow = availW < settings.cellCm || availH < settings.cellCm;
+  return { kind: "tiled" as const, orientation, page, across, down, tiles, pageCount: tiles.length + 1, overflow };
+}
+
+/**
+ * Mise en page retenue : une seule feuille si possible, sinon le découpage qui demande le moins de pages.
+ * En orientation "auto", le paysage est essayé en premier.
+ */
+export function planBoardPdf(rows: number, cols: number, settings: PdfExportSettings = DEFAULT_PDF_SETTINGS): BoardPdfPlan {
+  const orientations: PdfOrientation[] = settings.orientation === "auto" ? ["landscape", "portrait"] : [settings.orientation];
+
+  for (const orientation of orientations) {
+    const page = getPageSize(settings, orientation);
+    if (getSinglePageLayout(rows, cols, page, settings).fits) return { kind: "single", orientation, page, pageCount: 1 };
+  }
+
+  const candidates = orientations.map((o) => planTiles(rows, cols, o, settings));
+  return candidates.reduce((best, p) => (p.tiles.length < best.tiles.length ? p : best));
+}
+
+/** Position du morceau sur sa page et étendue visible (recouvrement côté voisins). */
+export function getTileLayout(tile: PdfTile, rows: number, cols: number, settings: PdfExportSettings, bleed: number) {
+  const cell = settings.cellCm;
+  const m = settings.marginCm;
+  const overlap = getOverlap(settings);
+
+  const ownX = m + overlap;
+  const ownY = m + TILE_HEADER_H + overlap;
+  const ownW = (tile.c1 - tile.c0) * cell;
+  const ownH = (tile.r1 - tile.r0) * cell;
+
+  const has = { left: tile.c0 > 0, right: tile.c1 < cols, top: tile.r0 > 0, bottom: tile.r1 < rows };
+  // au bord du plateau, on laisse seulement dépasser les entrées
+  const ext = {
+    left: has.left ? overlap : bleed,
+    right: has.right ? overlap : bleed,
+    top: has.top ? overlap : bleed,
+    bottom: has.bottom ? overlap : bleed,
+  };
+
+  return {
+    own: { x: ownX, y: ownY, w: ownW, h: ownH },
+    visible: { x: ownX - ext.left, y: ownY - ext.top, w: ownW + ext.left + ext.right, h: ownH + ext.top + ext.bottom },
+    // origine du plateau entier dans le repère de la page
+    ox: ownX - tile.c0 * cell,
+    oy: ownY - tile.r0 * cell,
+    has,
+    ext,
+    overlap,
+  };
+}
+
+// -------------------------------------------------------------------------
+
+function orientationLabel(o: PdfOrientation) {
+  return o === "landscape" ? "paysage" : "portrait";
+}
+
+export function describeBoardPdfPlan(plan: BoardPdfPlan, settings: PdfExportSettings = DEFAULT_PDF_SETTINGS) {
+  const paper = getPaperLabel(settings);
+  const scale = `cases de ${formatCm(settings.cellCm)} cm`;
+  const appendix = settings.inventoryAppendix ? " Inventaire en dernière page." : "";
+  if (plan.kind === "single") return `1 page ${paper} ${orientationLabel(plan.orientation)}, ${scale}.${appendix}`;
+  return `${plan.tiles.length} pages ${paper} ${orientationLabel(plan.orientation)} à assembler (${plan.across} × ${plan.down}), ${scale}, plus un plan d'assemblage.${appendix}`;
+}
+
+function formatRange(from: number, to: number) {
+  return from === to ? `${from}` : `${from}–${to}`;
+}
+
+export function describeTile(tile: PdfTile) {
+  return `colonnes ${formatRange(tile.c0 + 1, tile.c1)}, lignes ${formatRange(tile.r0 + 1, tile.r1)}`;
+}
+
+// -------------------------------------------------------------------------
+// Planches de tuiles à découper : chaque tuile entière, avec fond perdu et traits de coupe
+
+export const TILE_BLEED_CM = 0.3; // l'image déborde du trait de coupe
+export const CROP_MARK_CM = 0.4;
+export const CROP_MARK_GAP_CM = 0.1; // entre le fond perdu et le trait de coupe
+const PIECE_PAD = TILE_BLEED_CM + CROP_MARK_GAP_CM + CROP_MARK_CM; // autour de chaque pièce
+
+/** Tuiles à imprimer, regroupées par modèle (mêmes options = pièces identiques à la suite). */
+export function collectTilePieces(source: TileSheetSource, board: Pick<BoardSnapshot, "grid">): PlacedItem[] {
+  if (source === "palette") {
+    return PALETTE.map((p) => {
+      const size = p.size ?? { w: 1, h: 1 };
+      return normalizeOptions({
+        id: `palette-${p.type}`,
+        type: p.type,
+        tileType: p.tileType,
+        name: p.name,
+        colorClass: p.colorClass,
+        size,
+        baseSize: size,
+        options: getDefaultOptions(p.tileType, size),
+      });
+    });
+  }
+
+  const items = Object.values(board.grid).flatMap((cell) => (cell && isAnchor(cell) ? [cell.item] : []));
+  const signature = (it: PlacedItem) => `${it.type}|${JSON.stringify(it.options)}`;
+  return items.sort((a, b) => signature(a).localeCompare(signature(b)));
+}
+
+/** Position d'une pièce sur sa planche : rectangle de coupe (sans fond perdu). */
+export type TileSheetPlacement = { piece: number; x: number; y: number; w: number; h: number };
+
+export type TileSheetPlan = {
+  orientation: PdfOrientation;
+  page: PageSize;
+  sheets: TileSheetPlacement[][];
+  pageCount: number;
+  oversized: number; // pièces plus grandes que la zone imprimable
+};
+
+function packTileSheets(pieces: Array<{ w: number; h: number }>, orientation: PdfOrientation, settings: PdfExportSettings): TileSheetPlan {
+  const page = getPageSize(settings, orientation);
+  const m = settings.marginCm;
+  const cell = settings.cellCm;
+
+  const left = m;
+  const right = page.w - m;
+  const top = m + TILE_HEADER_H;
+  const bottom = page.h - m;
+
+  const sheets: TileSheetPlacement[][] = [];
+  let sheet: TileSheetPlacement[] = [];
+  let x = left;
+  let y = top;
+  let rowH = 0;
+  let oversized = 0;
+
+  // les plus hautes d'abord : des rangées plus régulières (tri stable, les modèles restent groupés)
+  const order = pieces.map((_, i) => i).sort((a, b) => pieces[b].h - pieces[a].h);
+
+  order.forEach((piece) => {
+    const size = pieces[piece];
+    const w = size.w * cell;
+    const h = size.h * cell;
+    const slotW = w + 2 * PIECE_PAD;
+    const slotH = h + 2 * PIECE_PAD;
+
+    if (slotW > right - left || slotH > bottom - top) oversized++;
+
+    // rangée suivante, puis planche suivante (une pièce trop grande reste seule sur sa planche)
+    if (x > left && x + slotW > right) {
+      x = left;
+      y += rowH;
+      rowH = 0;
+    }
+    if (y > top && y + slotH > bottom) {
+      sheets.push(sheet);
+      sheet = [];
+      x = left;
+      y = top;
+      rowH = 0;
+    }
+
+    sheet.push({ piece, x: x + PIECE_PAD, y: y + PIECE_PAD, w, h });
+    x += slotW;
+    rowH = Math.max(rowH, slotH);
+  });
+
+  if (sheet.length) sheets.push(sheet);
+  return { orientation, page, sheets, pageCount: sheets.length, oversized };
+}
+
+/** Répartition des pièces sur les planches ; en orientation "auto", celle qui demande le moins de feuilles. */
+export function planTileSheets(pieces: Array<Pick<PlacedItem, "size">>, settings: PdfExportSettings = DEFAULT_PDF_SETTINGS): TileSheetPlan {
+  const sizes = pieces.map((it) => it.size);
+  const orientations: PdfOrientation[] = settings.orientation === "auto" ? ["portrait", "landscape"] : [settings.orientation];
+
+  return orientations
+    .map((o) => packTileSheets(sizes, o, settings))
+    .reduce((best, p) => (p.sheets.length < best.sheets.length ? p : best));
+}
+
+// palette complète : aucune tuile n'est « utilisée », l'inventaire du plateau ne correspondrait pas aux planches
+export function hasTileSheetAppendix(settings: PdfExportSettings) {
+  return settings.inventoryAppendix && settings.tileSource === "board";
+}
+
+export function describeTileSheetPlan(plan: TileSheetPlan, settings: PdfExportSettings = DEFAULT_PDF_SETTINGS) {
+  const pieces = plan.sheets.reduce((n, s) => n + s.length, 0);
+  if (pieces === 0) return "Aucune tuile à imprimer.";
+  const sheets = plan.sheets.length > 1 ? `${plan.sheets.length} planches` : "1 planche";
+  return `${pieces} tuile(s) sur ${sheets} ${getPaperLabel(settings)} ${orientationLabel(plan.orientation)}, cases de ${formatCm(settings.cellCm)} cm, fond perdu de ${formatCm(TILE_BLEED_CM * 10)} mm.${hasTileSheetAppendix(settings) ? " Inventaire en dernière page." : ""}`;
+}
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { DragPayload } from "../views/BoardBuilder";
+
+/**
+ * Glisser-déposer au doigt et au stylet : les navigateurs tactiles ne déclenchent pas le drag HTML5.
+ * - appui long pour saisir la tuile (un mouvement avant la fin de l'appui annule : défilement, pincement)
+ * - l'aperçu suit le pointeur, le relâchement dépose sur la case ou la palette visée
+ * - la souris garde le drag HTML5 natif
+ */
+export const LONG_PRESS_MS = 350;
+const MOVE_TOLERANCE_PX = 10;
+
+export type PointerDragSource = {
+  payload: DragPayload;
+  // aperçu qui suit le pointeur, et point de saisie dans cet aperçu
+  makePreview: () => { el: HTMLElement; ox: number; oy: number };
+};
+
+export type PointerDropTarget = { kind: "cell"; cellKey: string } | { kind: "palette" };
+
+/** Case (data-cell) ou palette (data-palette-drop) sous le point (x, y). */
+export function getDropTargetAt(x: number, y: number): PointerDropTarget | null {
+  const el = document.elementFromPoint(x, y);
+  const cell = el?.closest<HTMLElement>("[data-cell]");
+  if (cell?.dataset.cell) return { kind: "cell", cellKey: cell.dataset.cell };
+  if (el?.closest("[data-palette-drop]")) return { kind: "palette" };
+  return null;
+}
+
+export function usePointerDrag(onDrop: (payload: DragPayload, target: PointerDropTarget) => void) {
+  const [dragging, setDragging] = useState<DragPayload | null>(null);
+
+  const onDropRef = useRef(onDrop);
+  useEffect(() => {
+    onDropRef.current = onDrop;
+  }, [onDrop]);
+
+  const cleanupRef = useRef<(() => void) | null>(null);
+  useEffect(() => () => cleanupRef.current?.(), []);
+
+  // `getSource` est appelé à la fin de l'appui long : null pour refuser la saisie
+  const beginPointerDrag = useCallback((e: React.PointerEvent, getSource: () => PointerDragSource | null) => {
+    if (e.pointerType === "mouse" || !e.isPrimary) return;
+    cleanupRef.current?.();
+
+    const pointerId = e.pointerId;
+    const start = { x: e.clientX, y: e.clientY };
+    let source: PointerDragSource | null = null;
+    let preview: { el: HTMLElement; ox: number; oy: number } | null = null;
+
+    const moveTo = (x: number, y: number) => {
+      if (!preview) return;
+      preview.el.style.left = `${x - preview.ox}px`;
+      preview.el.style.top = `${y - preview.oy}px`;
+    };
+
+    const timer = window.setTimeout(() => {
+      source = getSource();
+      if (!source) return cleanup();
+
+      preview = source.makePreview();
+      preview.el.style.opacity = "0.85";
+      moveTo(start.x, start.y);
+      navigator.vibrate?.(15);
+      setDragging(source.payload);
+    }, LONG_PRESS_MS);
+
+    const onPointerDown = (ev: PointerEvent) => {
+      // deuxième doigt : c'est un pincement, pas une saisie
+      if (ev.pointerId !== pointerId && !preview) cleanup();
+    };
+
+    const onPointerMove = (ev: PointerEvent) => {
+      if (ev.pointerId !== pointerId) return;
+      if (preview) moveTo(ev.clientX, ev.clientY);
+      else if (Math.hypot(ev.clientX - start.x, ev.clientY - start.y) > MOVE_TOLERANCE_PX) cleanup();
+    };
+
+    const onPointerUp = (ev: PointerEvent) => {
+      if (ev.pointerId !== pointerId) return;
+      const payload = preview ? source?.payload : null;
+      cleanup();
+      if (!payload) return;
+
+      // le relâchement ne doit pas aussi valoir un clic sur la case visée
+      const swallowClick = (c: MouseEvent) => {
+        c.stopPropagation();
+        c.preventDefault();
+      };
+      window.addEventListener("click", swallowClick, { capture: true, once: true });
+      window.setTimeout(() => window.removeEventListener("click", swallowClick, { capture: true }), 400);
+
+      const target = getDropTargetAt(ev.clientX, ev.clientY);
+      if (target) onDropRef.current(payload, target);
+    };
+
+    const onPointerCancel = (ev: PointerEvent) => {
+      if (ev.pointerId === pointerId) cleanup();
+    };
+
+    // pendant le glisser, pas de défilement de la page ni de menu contextuel de l'appui long
+    const onTouchMove = (ev: TouchEvent) => {
+      if (preview) ev.preventDefault();
+    };
+    const onContextMenu = (ev: Event) => ev.preventDefault();
+
+    function cleanup() {
+      window.clearTimeout(timer);
+      window.removeEventListener("pointerdown", onPointerDown);
+      window.removeEventListener("pointermove", onPointerMove);
+      window.removeEventListener("pointerup", onPointerUp);
+      window.removeEventListener("pointercancel", onPointerCancel);
+      window.removeEventListener("touchmove", onTouchMove);
+      window.removeEventListener("contextmenu", onContextMenu);
+      preview?.el.remove();
+      preview = null;
+      cleanupRef.current = null;
+      setDragging(null);
+    }
+
+    window.addEventListener("pointerdown", onPointerDown);
+    window.addEventListener("pointermove", onPointerMove);
+    window.addEventListener("pointerup", onPointerUp);
+    window.addEventListener("pointercancel", onPointerCancel);
+    window.addEventListener("touchmove", onTouchMove, { passive: false });
+    window.addEventListener("contextmenu", onContextMenu);
+    cleanupRef.current = cleanup;
+  }, []);
+
+  return { dragging, beginPointerDrag };
+}
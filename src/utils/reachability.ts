@@ -0,0 +1,108 @@
+import type { BoardSnapshot } from "../views/BoardBuilder";
+import { needsEntrance } from "./boardRules";
+import { getAnchorItem, isAnchor } from "./grid";
+import { buildRoadGraph, getRoadNeighbors, type RoadGraph } from "./roadGraph";
+
+/**
+ * Analyse des trajets : plus courts chemins sur les routes, depuis les entrées des écoles
+ * jusqu'aux entrées des zones sûres. La longueur d'un trajet est le nombre de routes parcourues.
+ */
+export type SafePlaceTrip = {
+  anchor: string;
+  name: string;
+  distance: number | null; // null : injoignable depuis toutes les écoles
+  school: string | null; // ancre de l'école la plus proche
+};
+
+export type ReachabilityAnalysis = {
+  distances: Record<string, number>; // route → distance à l'école la plus proche
+  maxDistance: number;
+  schools: number;
+  trips: SafePlaceTrip[]; // une entrée par zone sûre, du plus court au plus long trajet
+  unreachable: SafePlaceTrip[];
+  shortest: SafePlaceTrip | null;
+  longest: SafePlaceTrip | null;
+};
+
+type AnalysisBoard = Pick<BoardSnapshot, "rows" | "cols" | "grid">;
+
+// parcours en largeur depuis les routes devant les entrées (distance 1 : première route)
+function distancesFrom(graph: RoadGraph, starts: string[]) {
+  const dist = new Map<string, number>();
+  const queue: string[] = [];
+
+  for (const cell of starts) {
+    if (dist.has(cell)) continue;
+    dist.set(cell, 1);
+    queue.push(cell);
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    const cell = queue[i];
+    const d = dist.get(cell)!;
+    for (const next of getRoadNeighbors(graph, cell)) {
+      if (dist.has(next)) continue;
+      dist.set(next, d + 1);
+      queue.push(next);
+    }
+  }
+
+  return dist;
+}
+
+export function analyzeReachability(board: AnalysisBoard): ReachabilityAnalysis {
+  const graph = buildRoadGraph(board);
+
+  // routes raccordées à chaque bâtiment
+  const roadsByBuilding = new Map<string, string[]>();
+  for (const e of graph.entrances) {
+    const list = roadsByBuilding.get(e.building) ?? [];
+    list.push(e.road);
+    roadsByBuilding.set(e.building, list);
+  }
+
+  const schools: string[] = [];
+  const safePlaces: Array<{ anchor: string; name: string }> = [];
+  for (const [key, cell] of Object.entries(board.grid)) {
+    if (!cell || !isAnchor(cell)) continue;
+    if (cell.item.tileType === "school") schools.push(key);
+    else if (cell.item.tileType === "safe_place" && needsEntrance(cell.item)) safePlaces.push({ anchor: key, name: cell.item.name });
+  }
+
+  const distances: Record<string, number> = {};
+  const bySchool = schools.map((school) => {
+    const dist = distancesFrom(graph, roadsByBuilding.get(school) ?? []);
+    for (const [cell, d] of dist) distances[cell] = Math.min(distances[cell] ?? Infinity, d);
+    return { school, dist };
+  });
+
+  const trips = safePlaces.map(({ anchor, name }): SafePlaceTrip => {
+    let best: SafePlaceTrip = { anchor, name, distance: null, school: null };
+    for (const { school, dist } of bySchool) {
+      for (const road of roadsByBuilding.get(anchor) ?? []) {
+        const d = dist.get(road);
+        if (d !== undefined && (best.distance === null || d < best.distance)) best = { anchor, name, distance: d, school };
+      }
+    }
+    return best;
+  });
+
+  const reachable = trips.filter((t) => t.distance !== null).sort((a, b) => a.distance! - b.distance!);
+
+  return {
+    distances,
+    maxDistance: Math.max(0, ...Object.values(distances)),
+    schools: schools.length,
+    trips: [...reachable, ...trips.filter((t) => t.distance === null)],
+    unreachable: trips.filter((t) => t.distance === null),
+    shortest: reachable[0] ?? null,
+    longest: reachable[reachable.length - 1] ?? null,
+  };
+}
+
+/** Libellé d'un trajet : « Parc : 4 routes depuis École ». */
+export function describeTrip(trip: SafePlaceTrip, grid: AnalysisBoard["grid"]) {
+  if (trip.distance === null) return `${trip.name} : injoignable`;
+  const from = trip.school ? getAnchorItem(trip.school, grid)?.name : null;
+  return `${trip.name} : ${trip.distance} route${trip.distance > 1 ? "s" : ""}${from ? ` depuis ${from}` : ""}`;
+}
@@ -0,0 +1,165 @@
+import type { BoardSnapshot, PlacedItem } from "../views/BoardBuilder";
+import { getAnchorItem, getAnchorKeyFromCellKey, getCellRC, getRectsForCell, getTileRotation, isAnchor } from "./grid";
+import { findPaletteItem } from "./palette";
+import type { EdgeSide } from "./tileCanvas";
+
+/**
+ * Graphe routier du plateau : chaque route déclare ses côtés ouverts (palette, rotation 0),
+ * tournés selon la rotation de la tuile. Deux routes voisines sont reliées si leurs côtés
+ * en regard sont ouverts tous les deux ; une entrée de bâtiment se branche sur la route d'en face.
+ */
+export const EDGE_SIDES: EdgeSide[] = ["top", "right", "bottom", "left"];
+
+const SIDE_DELTA: Record<EdgeSide, { dr: number; dc: number }> = {
+  top: { dr: -1, dc: 0 },
+  right: { dr: 0, dc: 1 },
+  bottom: { dr: 1, dc: 0 },
+  left: { dr: 0, dc: -1 },
+};
+
+export const OPPOSITE_SIDE: Record<EdgeSide, EdgeSide> = { top: "bottom", right: "left", bottom: "top", left: "right" };
+
+/** Côté après rotation horaire (90° : haut → droite). */
+export function rotateSide(side: EdgeSide, rotation: number) {
+  const steps = Math.round(rotation / 90) % 4;
+  return EDGE_SIDES[(EDGE_SIDES.indexOf(side) + steps + 4) % 4];
+}
+
+/** Case voisine par un côté, ou null hors du plateau. */
+export function getNeighborKey(cellKey: string, side: EdgeSide, rows: number, cols: number) {
+  const { r, c } = getCellRC(cellKey);
+  const nr = r + SIDE_DELTA[side].dr;
+  const nc = c + SIDE_DELTA[side].dc;
+  if (nr < 0 || nc < 0 || nr >= rows || nc >= cols) return null;
+  return `${nr},${nc}`;
+}
+
+/** Côtés ouverts d'une route posée (rotation prise en compte) ; vide pour les autres tuiles. */
+export function getRoadEdges(it: Pick<PlacedItem, "tileType" | "type" | "options">): EdgeSide[] {
+  if (it.tileType !== "road") return [];
+  const rot = getTileRotation(it);
+  return (findPaletteItem(it.type)?.roadEdges ?? []).map((side) => rotateSide(side, rot));
+}
+
+// la forêt est une tuile "road" sans côté ouvert : on n'y circule pas
+export function isDrivableRoad(it: Pick<PlacedItem, "tileType" | "type" | "options">) {
+  return getRoadEdges(it).length > 0;
+}
+
+// pourquoi un côté ouvert ne mène nulle part
+export type RoadDeadEndReason = "board_edge" | "empty" | "closed_road" | "building";
+
+export type RoadDeadEnd = {
+  cell: string;
+  side: EdgeSide;
+  reason: RoadDeadEndReason;
+  neighbor: string | null; // case d'en face (null : bord du plateau)
+};
+
+export type RoadNode = {
+  cell: string;
+  item: PlacedItem;
+  edges: EdgeSide[];
+  links: Partial<Record<EdgeSide, string>>; // route reliée par chaque côté
+};
+
+// entrée de bâtiment raccordée au réseau
+export type RoadEntrance = {
+  building: string; // ancre du bâtiment
+  cell: string; // case du bâtiment qui porte l'entrée
+  side: EdgeSide;
+  road: string;
+};
+
+export type RoadGraph = {
+  nodes: Map<string, RoadNode>;
+  deadEnds: RoadDeadEnd[];
+  entrances: RoadEntrance[];
+};
+
+type GraphBoard = Pick<BoardSnapshot, "rows" | "cols" | "grid">;
+
+export function buildRoadGraph({ rows, cols, grid }: GraphBoard): RoadGraph {
+  const nodes = new Map<string, RoadNode>();
+  for (const [cell, value] of Object.entries(grid)) {
+    if (!value || !isAnchor(value)) continue;
+    const edges = getRoadEdges(value.item);
+    if (edges.length) nodes.set(cell, { cell, item: value.item, edges, links: {} });
+  }
+
+  // entrées : case du bâtiment → côtés avec une entrée
+  const entrances: RoadEntrance[] = [];
+  const entranceSides = new Map<string, Set<EdgeSide>>();
+  for (const cell of Object.keys(grid)) {
+    const building = getAnchorKeyFromCellKey(cell, grid);
+    if (!building) continue;
+    const rects = getRectsForCell(cell, grid);
+    for (const side of EDGE_SIDES) {
+      if (!rects[side]) continue;
+      if (!entranceSides.has(cell)) entranceSides.set(cell, new Set());
+      entranceSides.get(cell)!.add(side);
+
+      const road = getNeighborKey(cell, side, rows, cols);
+      if (road && nodes.get(road)?.edges.includes(OPPOSITE_SIDE[side])) entrances.push({ building, cell, side, road });
+    }
+  }
+
+  const deadEnds: RoadDeadEnd[] = [];
+  for (const node of nodes.values()) {
+    for (const side of node.edges) {
+      const neighbor = getNeighborKey(node.cell, side, rows, cols);
+      if (!neighbor) {
+        deadEnds.push({ cell: node.cell, side, reason: "board_edge", neighbor });
+        continue;
+      }
+
+      const other = nodes.get(neighbor);
+      if (other) {
+        if (other.edges.includes(OPPOSITE_SIDE[side])) node.links[side] = neighbor;
+        else deadEnds.push({ cell: node.cell, side, reason: "closed_road", neighbor });
+        continue;
+      }
+
+      const it = getAnchorItem(neighbor, grid);
+      if (!it) deadEnds.push({ cell: node.cell, side, reason: "empty", neighbor });
+      else if (!entranceSides.get(neighbor)?.has(OPPOSITE_SIDE[side])) deadEnds.push({ cell: node.cell, side, reason: "building", neighbor });
+    }
+  }
+
+  return { nodes, deadEnds, entrances };
+}
+
+/** Routes reliées à une case (dans l'ordre haut, droite, bas, gauche). */
+export function getRoadNeighbors(graph: RoadGraph, cell: string) {
+  const node = graph.nodes.get(cell);
+  if (!node) return [];
+  return EDGE_SIDES.map((side) => node.links[side]).filter((k): k is string => !!k);
+}
+
+/** Composantes connexes du réseau, de la plus grande à la plus petite. */
+export function getRoadComponents(graph: RoadGraph) {
+  const seen = new Set<string>();
+  const components: string[][] = [];
+
+  for (const start of graph.nodes.keys()) {
+    if (seen.has(start)) continue;
+
+    const component: string[] = [];
+    const stack = [start];
+    seen.add(start);
+
+    while (stack.length) {
+      const cell = stack.pop()!;
+      component.push(cell);
+      for (const next of getRoadNeighbors(graph, cell)) {
+        if (seen.has(next)) continue;
+        seen.add(next);
+        stack.push(next);
+      }
+    }
+
+    components.push(component);
+  }
+
+  return components.sort((a, b) => b.length - a.length);
+}
@@ -0,0 +1,168 @@
+import type { BoardSnapshot, RoadOptions } from "../views/BoardBuilder";
+import { BOARD_FORMAT_VERSION, BOARD_SCHEMA, documentToSnapshot, snapshotToDocument, type BoardDocument, type BoardDocumentItem } from "./boardFormat";
+import { PALETTE } from "./palette";
+
+/**
+ * Lien de partage sans serveur : le plateau est compacté en binaire puis encodé en base64url
+ * dans le hash de l'URL (`/#b=...`).
+ *
+ * En-tête (octets) : version du lien, lignes, colonnes, longueur du nom (UTF-8, 255 max), nom, nombre de tuiles.
+ * Puis, par tuile (bits) :
+ * - index dans PALETTE (7 bits)
+ * - ligne, colonne de l'ancre (4 + 4 bits)
+ * - rotation (2 bits : 0/90/180/270)
+ * - route : overlay (2 bits : aucun, alien, bus scolaire, bus municipal)
+ * - école / zone sûre : un bit par segment d'entrée, haut puis bas (largeur), gauche puis droite (hauteur)
+ */
+const LINK_VERSION = 1;
+const HASH_PREFIX = "#b=";
+
+const TYPE_BITS = 7;
+const POS_BITS = 4;
+const ROAD_OVERLAYS: Array<keyof RoadOptions> = ["alien", "school_bus", "city_bus"];
+
+function createBitWriter() {
+  const bytes: number[] = [];
+  let bitPos = 0;
+
+  const write = (value: number, bits: number) => {
+    for (let i = bits - 1; i >= 0; i--) {
+      if (bitPos % 8 === 0) bytes.push(0);
+      if ((value >> i) & 1) bytes[bytes.length - 1] |= 1 << (7 - (bitPos % 8));
+      bitPos++;
+    }
+  };
+
+  return { write, bytes };
+}
+
+function createBitReader(bytes: Uint8Array, start: number) {
+  let bitPos = 0;
+
+  const read = (bits: number) => {
+    let v = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = bytes[start + (bitPos >> 3)];
+      if (byte === undefined) throw new Error("Lien de partage tronqué.");
+      v = (v << 1) | ((byte >> (7 - (bitPos % 8))) & 1);
+      bitPos++;
+    }
+    return v;
+  };
+
+  return { read };
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+function getSize(type: string, rotation: number) {
+  const p = PALETTE.find((x) => x.type === type);
+  const base = p?.size ?? { w: 1, h: 1 };
+  return rotation === 90 || rotation === 270 ? { w: base.h, h: base.w } : base;
+}
+
+export function encodeBoard(board: BoardSnapshot): string {
+  const doc = snapshotToDocument(board);
+
+  // nom tronqué à 255 octets sans couper un caractère multi-octets
+  let nameBytes = new TextEncoder().encode(doc.boardName);
+  if (nameBytes.length > 255) {
+    let end = 255;
+    while (end > 0 && (nameBytes[end] & 0xc0) === 0x80) end--;
+    nameBytes = nameBytes.slice(0, end);
+  }
+
+  const header = [LINK_VERSION, doc.rows, doc.cols, nameBytes.length, ...nameBytes, doc.items.length];
+
+  const bits = createBitWriter();
+  for (const it of doc.items) {
+    const typeIndex = PALETTE.findIndex((p) => p.type === it.type);
+    const p = PALETTE[typeIndex];
+
+    bits.write(typeIndex, TYPE_BITS);
+    bits.write(it.anchor.r, POS_BITS);
+    bits.write(it.anchor.c, POS_BITS);
+    bits.write(it.rotation / 90, 2);
+
+    if (p.tileType === "road") {
+      const overlay = ROAD_OVERLAYS.findIndex((k) => !!it.options[k]);
+      bits.write(overlay + 1, 2);
+    } else {
+      const { w, h } = getSize(it.type, it.rotation);
+      const seg = (arr: boolean[] | undefined, len: number) => {
+        for (let i = 0; i < len; i++) bits.write(arr?.[i] ? 1 : 0, 1);
+      };
+      seg(it.options.topSegments, w);
+      seg(it.options.bottomSegments, w);
+      seg(it.options.leftSegments, h);
+      seg(it.options.rightSegments, h);
+    }
+  }
+
+  return toBase64Url(Uint8Array.from([...header, ...bits.bytes]));
+}
+
+export function decodeBoard(payload: string): BoardSnapshot {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(payload);
+  } catch {
+    throw new Error("Lien de partage illisible.");
+  }
+
+  const [version, rows, cols, nameLen] = bytes;
+  if (version !== LINK_VERSION) throw new Error("Ce lien a été créé avec une version incompatible de l'éditeur.");
+  if (nameLen === undefined || bytes.length < 5 + nameLen) throw new Error("Lien de partage tronqué.");
+
+  const boardName = new TextDecoder().decode(bytes.slice(4, 4 + nameLen));
+  const count = bytes[4 + nameLen];
+  const bits = createBitReader(bytes, 5 + nameLen);
+
+  const items: BoardDocumentItem[] = [];
+  for (let i = 0; i < count; i++) {
+    const typeIndex = bits.read(TYPE_BITS);
+    const p = PALETTE[typeIndex];
+    if (!p) throw new Error(`Tuile inconnue dans le lien (index ${typeIndex}).`);
+
+    const r = bits.read(POS_BITS);
+    const c = bits.read(POS_BITS);
+    const rotation = (bits.read(2) * 90) as BoardDocumentItem["rotation"];
+
+    const options: BoardDocumentItem["options"] = {};
+    if (p.tileType === "road") {
+      const overlay = bits.read(2);
+      for (const [k, key] of ROAD_OVERLAYS.entries()) options[key] = overlay === k + 1;
+    } else {
+      const { w, h } = getSize(p.type, rotation);
+      const seg = (len: number) => Array.from({ length: len }, () => bits.read(1) === 1);
+      options.topSegments = seg(w);
+      options.bottomSegments = seg(w);
+      options.leftSegments = seg(h);
+      options.rightSegments = seg(h);
+    }
+
+    items.push({ type: p.type, anchor: { r, c }, rotation, options });
+  }
+
+  const doc: BoardDocument = { schema: BOARD_SCHEMA, version: BOARD_FORMAT_VERSION, rows, cols, boardName, items };
+  return documentToSnapshot(doc);
+}
+
+export function buildShareUrl(board: BoardSnapshot) {
+  return `${window.location.origin}/${HASH_PREFIX}${encodeBoard(board)}`;
+}
+
+/** Renvoie la charge utile si le hash contient un plateau partagé. */
+export function readSharedHash(hash: string): string | null {
+  return hash.startsWith(HASH_PREFIX) ? hash.slice(HASH_PREFIX.length) : null;
+}
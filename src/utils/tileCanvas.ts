@@ -0,0 +1,216 @@
+import type { BoardSnapshot, PlacedItem, RoadOptions, TileRotation } from "../views/BoardBuilder";
+import { getRectsForCell, getTileRotation, isAnchor } from "./grid";
+
+// Assets des tuiles et helpers canvas partagés par les exports (PDF, miniatures…)
+
+const ROAD_OPTION_TO_IMAGE: Record<keyof RoadOptions, string> = {
+  alien: "alien",
+  school_bus: "school_bus",
+  city_bus: "city_bus",
+};
+
+export const getTileUrl = (type: string) => new URL(`../assets/tiles/${type}.png`, import.meta.url).href;
+export const getOptionUrl = (fileBase: string) => new URL(`../assets/options/${fileBase}.png`, import.meta.url).href;
+
+export function getRoadOptionOverlay(it: PlacedItem): string | null {
+  if (it.tileType !== "road") return null;
+
+  const order: Array<keyof RoadOptions> = ["alien", "school_bus", "city_bus"];
+  const active = order.find((k) => !!it.options[k]);
+  if (!active) return null;
+
+  const fileBase = ROAD_OPTION_TO_IMAGE[active];
+  return getOptionUrl(fileBase);
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+}
+
+export function buildRotatedTileCanvas(img: HTMLImageElement, baseW: number, baseH: number, cellPx: number, rot: TileRotation) {
+  const swap = rot === 90 || rot === 270;
+
+  // Taille affichée (après rotation)
+  const dispW = (swap ? baseH : baseW) * cellPx;
+  const dispH = (swap ? baseW : baseH) * cellPx;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = dispW;
+  canvas.height = dispH;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return canvas;
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.clearRect(0, 0, dispW, dispH);
+
+  // On dessine l’image au centre et on applique la rotation (comme un transform CSS)
+  const rad = (rot * Math.PI) / 180;
+
+  ctx.translate(dispW / 2, dispH / 2);
+  ctx.rotate(rad);
+
+  const srcW = baseW * cellPx;
+  const srcH = baseH * cellPx;
+
+  ctx.drawImage(img, -srcW / 2, -srcH / 2, srcW, srcH);
+
+  // Reset transform pour éviter les effets de bord
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  return canvas;
+}
+
+export function cropCellFromFullTile(full: HTMLCanvasElement, sx: number, sy: number, cellPx: number) {
+  const out = document.createElement("canvas");
+  out.width = cellPx;
+  out.height = cellPx;
+  const ctx = out.getContext("2d");
+  if (!ctx) return out;
+  ctx.imageSmoothingEnabled = true;
+  ctx.clearRect(0, 0, cellPx, cellPx);
+  ctx.drawImage(full, sx * cellPx, sy * cellPx, cellPx, cellPx, 0, 0, cellPx, cellPx);
+  return out;
+}
+
+/** Conversion en niveaux de gris (luminance), sur place. */
+export function toGreyscale(canvas: HTMLCanvasElement) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx || !canvas.width || !canvas.height) return canvas;
+
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const px = data.data;
+  for (let i = 0; i < px.length; i += 4) {
+    const y = Math.round(0.299 * px[i] + 0.587 * px[i + 1] + 0.114 * px[i + 2]);
+    px[i] = px[i + 1] = px[i + 2] = y;
+  }
+  ctx.putImageData(data, 0, 0);
+  return canvas;
+}
+
+export type EdgeSide = "top" | "right" | "bottom" | "left";
+
+// Rectangles d'entrée (école = bleu, zone sûre = orange), mêmes proportions que EdgeRect :
+// longueur 60 % de la case, épaisseur 18 %, à cheval sur le bord (décalage = épaisseur / 1.35)
+export const EDGE_RECT_LENGTH = 0.6;
+export const EDGE_RECT_THICKNESS = 0.18;
+export const EDGE_RECT_OFFSET = EDGE_RECT_THICKNESS / 1.35;
+
+export const ENTRANCE_COLORS = {
+  school: { r: 59, g: 130, b: 246 }, // proche bg-blue-500
+  safe_place: { r: 251, g: 146, b: 60 }, // proche bg-orange-400
+};
+
+export function getEdgeRectBox(side: EdgeSide, cellX: number, cellY: number, cell: number) {
+  const len = cell * EDGE_RECT_LENGTH;
+  const th = cell * EDGE_RECT_THICKNESS;
+  const off = cell * EDGE_RECT_OFFSET;
+
+  switch (side) {
+    case "top":
+      return { x: cellX + (cell - len) / 2, y: cellY - off, w: len, h: th };
+    case "bottom":
+      return { x: cellX + (cell - len) / 2, y: cellY + cell - th + off, w: len, h: th };
+    case "left":
+      return { x: cellX - off, y: cellY + (cell - len) / 2, w: th, h: len };
+    case "right":
+      return { x: cellX + cell - th + off, y: cellY + (cell - len) / 2, w: th, h: len };
+  }
+}
+
+// Couleurs du plateau imprimé (cadre rouge, cases vides, cartouche du nom), partagées par les exports
+export type Rgb = { r: number; g: number; b: number };
+
+export const BOARD_COLORS = {
+  frame: { r: 255, g: 32, b: 32 },
+  cell: { r: 150, g: 18, b: 18 },
+  name: { r: 245, g: 186, b: 18 },
+} satisfies Record<string, Rgb>;
+
+export const rgbCss = (c: Rgb) => `rgb(${c.r}, ${c.g}, ${c.b})`;
+
+/** Tuiles posées (ancres), dans l'ordre de lecture. */
+export function getPlacedTiles(board: Pick<BoardSnapshot, "rows" | "cols" | "grid">) {
+  const anchors: Array<{ r: number; c: number; it: PlacedItem }> = [];
+  for (let r = 0; r < board.rows; r++) {
+    for (let c = 0; c < board.cols; c++) {
+      const cell = board.grid[`${r},${c}`];
+      if (cell && isAnchor(cell)) anchors.push({ r, c, it: cell.item });
+    }
+  }
+  return anchors;
+}
+
+/**
+ * Dessine le plateau sur un canvas, origine en (ox, oy) : fond des cases, tuiles entières pivotées,
+ * overlays de route, puis entrées par-dessus toutes les tuiles (comme la grille de l'éditeur).
+ */
+export async function drawBoardOnCanvas(ctx: CanvasRenderingContext2D, board: Pick<BoardSnapshot, "rows" | "cols" | "grid">, cellPx: number, ox = 0, oy = 0) {
+  const { rows, cols, grid } = board;
+
+  ctx.fillStyle = rgbCss(BOARD_COLORS.cell);
+  ctx.fillRect(ox, oy, cols * cellPx, rows * cellPx);
+
+  const imgCache = new Map<string, HTMLImageElement>();
+  const getImg = async (src: string) => {
+    const cached = imgCache.get(src);
+    if (cached) return cached;
+    const img = await loadImage(src);
+    imgCache.set(src, img);
+    return img;
+  };
+
+  const anchors = getPlacedTiles(board);
+
+  // 1) tuiles entières, pivotées, posées sur leur ancre
+  for (const { r, c, it } of anchors) {
+    try {
+      const img = await getImg(getTileUrl(it.type));
+      const full = buildRotatedTileCanvas(img, it.baseSize.w, it.baseSize.h, cellPx, getTileRotation(it));
+      ctx.drawImage(full, ox + c * cellPx, oy + r * cellPx);
+
+      const overlay = getRoadOptionOverlay(it);
+      if (overlay) ctx.drawImage(await getImg(overlay), ox + c * cellPx, oy + r * cellPx, cellPx, cellPx);
+    } catch {
+      // asset manquant : la case reste vide
+    }
+  }
+
+  // 2) entrées par-dessus toutes les tuiles
+  for (const { r, c, it } of anchors) {
+    if (it.tileType !== "school" && it.tileType !== "safe_place") continue;
+    ctx.fillStyle = rgbCss(ENTRANCE_COLORS[it.tileType]);
+
+    for (let dy = 0; dy < it.size.h; dy++) {
+      for (let dx = 0; dx < it.size.w; dx++) {
+        const rects = getRectsForCell(`${r + dy},${c + dx}`, grid);
+        for (const side of ["top", "right", "bottom", "left"] as const) {
+          if (!rects[side]) continue;
+          const box = getEdgeRectBox(side, ox + (c + dx) * cellPx, oy + (r + dy) * cellPx, cellPx);
+          ctx.fillRect(box.x, box.y, box.w, box.h);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Miniature du plateau (bibliothèque, galerie) : mêmes assets que la grille,
+ * tuiles pivotées, overlays de route et entrées. Renvoie une data URL JPEG.
+ */
+export async function renderBoardThumbnail(board: Pick<BoardSnapshot, "rows" | "cols" | "grid">, cellPx = 40) {
+  const canvas = document.createElement("canvas");
+  canvas.width = board.cols * cellPx;
+  canvas.height = board.rows * cellPx;
+
+  const ctx = canvas.getContext("2d");
+  if (ctx) await drawBoardOnCanvas(ctx, board, cellPx);
+
+  return canvas.toDataURL("image/jpeg", 0.85);
+}
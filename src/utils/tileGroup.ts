@@ -0,0 +1,103 @@
+import type { Cell, PlacedItem } from "../views/BoardBuilder";
+import { canPlaceAt, clearItemByAnchor, getCellRC, getCellsForFootprint, isAnchor, uid, writeItemAtAnchor } from "./grid";
+
+/**
+ * Groupe de tuiles (sélection multiple, presse-papiers) : positions des ancres relatives
+ * au coin haut-gauche du groupe, tuiles copiées telles quelles (rotation, options).
+ */
+export type TileGroup = {
+  items: Array<{ dr: number; dc: number; item: PlacedItem }>;
+  size: { w: number; h: number };
+};
+
+/** Ancres des tuiles dont l'id est donné, dans l'ordre de la grille. */
+export function getAnchorsByIds(grid: Record<string, Cell>, ids: Iterable<string>) {
+  const wanted = new Set(ids);
+  const out: Array<{ key: string; item: PlacedItem }> = [];
+  for (const [key, cell] of Object.entries(grid)) {
+    if (cell && isAnchor(cell) && wanted.has(cell.item.id)) out.push({ key, item: cell.item });
+  }
+  return out;
+}
+
+export function collectGroup(grid: Record<string, Cell>, ids: Iterable<string>): TileGroup | null {
+  const anchors = getAnchorsByIds(grid, ids).map(({ key, item }) => ({ ...getCellRC(key), item }));
+  if (anchors.length === 0) return null;
+
+  const top = Math.min(...anchors.map((a) => a.r));
+  const left = Math.min(...anchors.map((a) => a.c));
+  const bottom = Math.max(...anchors.map((a) => a.r + a.item.size.h));
+  const right = Math.max(...anchors.map((a) => a.c + a.item.size.w));
+
+  return {
+    items: anchors.map(({ r, c, item }) => ({ dr: r - top, dc: c - left, item })),
+    size: { w: right - left, h: bottom - top },
+  };
+}
+
+/** Coin haut-gauche du groupe sur la grille. */
+export function getGroupOrigin(grid: Record<string, Cell>, ids: Iterable<string>) {
+  const anchors = getAnchorsByIds(grid, ids).map(({ key }) => getCellRC(key));
+  if (anchors.length === 0) return null;
+  return { r: Math.min(...anchors.map((a) => a.r)), c: Math.min(...anchors.map((a) => a.c)) };
+}
+
+/** Cases couvertes par le groupe posé en `originKey`. */
+export function getGroupCells(group: TileGroup, originKey: string) {
+  const { r, c } = getCellRC(originKey);
+  return group.items.flatMap(({ dr, dc, item }) => getCellsForFootprint(`${r + dr},${c + dc}`, item.size));
+}
+
+export function removeItems(grid: Record<string, Cell>, ids: Iterable<string>) {
+  const next = { ...grid };
+  for (const { key } of getAnchorsByIds(grid, ids)) clearItemByAnchor(next, key);
+  return next;
+}
+
+/**
+ * Pose le groupe en `originKey` : tout ou rien, chaque tuile doit tenir sur une case libre
+ * (mêmes règles que canPlaceAt). `ignoreIds` : tuiles du plateau retirées avant la pose (déplacement).
+ * Renvoie la nouvelle grille et les ids posés, ou null si le groupe ne tient pas.
+ */
+export function placeGroup(
+  grid: Record<string, Cell>,
+  group: TileGroup,
+  originKey: string,
+  rows: number,
+  cols: number,
+  { ignoreIds = [], newIds = false }: { ignoreIds?: Iterable<string>; newIds?: boolean } = {}
+) {
+  const { r, c } = getCellRC(originKey);
+  const next = removeItems(grid, ignoreIds);
+  const ids: string[] = [];
+
+  for (const { dr, dc, item } of group.items) {
+    const key = `${r + dr},${c + dc}`;
+    if (!canPlaceAt(key, item, next, rows, cols)) return null;
+
+    const placed = newIds ? { ...item, id: uid() } : item;
+    writeItemAtAnchor(next, key, placed);
+    ids.push(placed.id);
+  }
+
+  return { grid: next, ids };
+}
+
+/** Tuiles dont l'emprise touche le rectangle de cases entre `fromKey` et `toKey`. */
+export function getIdsInRect(grid: Record<string, Cell>, fromKey: string, toKey: string) {
+  const a = getCellRC(fromKey);
+  const b = getCellRC(toKey);
+  const top = Math.min(a.r, b.r);
+  const bottom = Math.max(a.r, b.r);
+  const left = Math.min(a.c, b.c);
+  const right = Math.max(a.c, b.c);
+
+  const ids: string[] = [];
+  for (const [key, cell] of Object.entries(grid)) {
+    if (!cell || !isAnchor(cell)) continue;
+    const { r, c } = getCellRC(key);
+    const { w, h } = cell.item.size;
+    if (r <= bottom && r + h - 1 >= top && c <= right && c + w - 1 >= left) ids.push(cell.item.id);
+  }
+  return ids;
+}
@@ -1,17 +1,59 @@
 // src/views/BoardBuilder.tsx
 import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { jsPDF } from "jspdf";
-import { isMobile } from "../utils/isMobile";
+import { useLocation, useNavigate } from "react-router-dom";
+import { COARSE_POINTER_QUERY, COMPACT_LAYOUT_QUERY, useMediaQuery } from "../utils/isMobile";
+import { useHistoryState } from "../utils/history";
+import { DEFAULT_BOARD_SIZE, type BoardSize } from "../utils/boardSize";
+import {
+  canPlaceAt,
+  clearItemByAnchor,
+  computeCellZIndex,
+  getAnchorItem,
+  getAnchorKeyFromCellKey,
+  getCellLabel,
+  getCellRC,
+  getDefaultOptions,
+  getSliceBackground,
+  getTileRotation,
+  isAnchor,
+  makeEmptyGrid,
+  normalizeOptions,
+  resizeGrid,
+  uid,
+  writeItemAtAnchor,
+} from "../utils/grid";
+import { PALETTE, findPaletteItem } from "../utils/palette";
+import { LS_BOARD_KEY, documentToSnapshot, migrateV1Grid, parseBoardFile, snapshotToDocument } from "../utils/boardFormat";
+import { downloadBlob, safeFileName } from "../utils/download";
+import { getRoadOptionOverlay, getTileUrl, renderBoardThumbnail, type EdgeSide } from "../utils/tileCanvas";
+import { generateBoardPdf, generateTileSheetPdf } from "../utils/boardPdf";
+import { normalizePdfSettings, type PdfExportSettings } from "../utils/pdfLayout";
+import { createEntry, getBoard, listBoards, putBoard, type LibraryEntry } from "../utils/boardLibrary";
+import { buildShareUrl, decodeBoard, readSharedHash } from "../utils/shareLink";
+import { copyImage, copyText } from "../utils/clipboard";
+import { DEFAULT_IMAGE_OPTIONS, renderBoardPng } from "../utils/boardImage";
+import { validateBoard } from "../utils/boardRules";
+import { analyzeReachability } from "../utils/reachability";
+import { rotateSegmentsBy, transformBoard, transformSelection, type BoardTransform } from "../utils/boardTransform";
+import { collectGroup, getGroupCells, getGroupOrigin, getIdsInRect, placeGroup, removeItems, type TileGroup } from "../utils/tileGroup";
+import { computeInventory, countPlacedByType, getRemainingStock, getStockShortages, normalizeStock, type OwnedStock } from "../utils/inventory";
+import { usePointerDrag, type PointerDropTarget } from "../utils/pointerDrag";
+import { getCreation, getPublishBlockers, publishCreation, type CommunityCreation } from "../utils/communityApi";
 
 import Palette from "../components/Palette";
+import BottomSheet from "../components/BottomSheet";
+import TilePickerModal from "../components/TilePickerModal";
+import RulesBadge from "../components/RulesBadge";
+import ReachabilityPanel from "../components/ReachabilityPanel";
 import Grid from "../components/Grid";
 import Options from "../components/Options";
 import PrintModal from "../components/PrintModal";
-
-import hoboTtfUrl from "../assets/hobo.ttf?url";
-
-import { version } from "../../package.json";
+import ImageExportModal from "../components/ImageExportModal";
+import InventoryModal from "../components/InventoryModal";
+import BoardSizeModal from "../components/BoardSizeModal";
+import LibraryModal from "../components/LibraryModal";
+import { TileLayer } from "../components/BoardView";
+import RemixModal from "../components/RemixModal";
 
 export type TileType = "road" | "school" | "safe_place";
 
@@ -21,6 +63,7 @@ export type PaletteItem = {
   name: string;
   colorClass: string;
   size?: { w: number; h: number };
+  roadEdges?: EdgeSide[]; // routes : côtés ouverts de l'image non tournée
 };
 
 export type TileRotation = 0 | 90 | 180 | 270;
@@ -67,242 +110,99 @@ export type PlacedItem = {
   options: PlacedOptions;
 };
 
-export type DragPayload = { kind: "new"; paletteType: string } | { kind: "move"; placedId: string; grabOffset: { dx: number; dy: number } };
+export type DragPayload =
+  | { kind: "new"; paletteType: string }
+  | { kind: "move"; placedId: string; grabOffset: { dx: number; dy: number } }
+  // sélection multiple : grabOffset est relatif au coin haut-gauche du groupe
+  | { kind: "group"; placedIds: string[]; grabOffset: { dx: number; dy: number } };
 
 export type Cell = null | { kind: "anchor"; item: PlacedItem } | { kind: "shadow"; anchorKey: string };
 
-const uid = () => Math.random().toString(16).slice(2) + Date.now().toString(16);
+// Une étape d'historique : tout ce que l'utilisateur peut annuler
+export type BoardSnapshot = {
+  rows: number;
+  cols: number;
+  grid: Record<string, Cell>;
+  boardName: string;
+  remixOf?: string; // id de la création communautaire d'origine
+};
 
-function clamp(n: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, n));
-}
+const HISTORY_LIMIT = 50;
 
-function getCellRC(cellKey: string) {
-  const [rStr, cStr] = cellKey.split(",");
-  return { r: Number(rStr), c: Number(cStr) };
-}
+// Historique d'annulation du plateau courant (plateau lui-même : LS_BOARD_KEY, voir utils/boardFormat)
+const LS_HISTORY_KEY = "dtts_boardbuilder_history_v1";
 
-function isAnchor(cell: Cell): cell is { kind: "anchor"; item: PlacedItem } {
-  return !!cell && cell.kind === "anchor";
-}
+// Anciennes clés (format v1) : migrées puis supprimées au premier lancement
+const LS_KEY = "dtts_boardbuilder_grid_v1";
+const LS_BOARDNAME_KEY = "dtts_boardbuilder_name_v1";
+const LS_SIZE_KEY = "dtts_boardbuilder_size_v1";
 
-function isShadow(cell: Cell): cell is { kind: "shadow"; anchorKey: string } {
-  return !!cell && cell.kind === "shadow";
-}
+// Bibliothèque (IndexedDB) : plateau ouvert + migration de l'emplacement unique
+const LS_CURRENT_ID_KEY = "dtts_boardbuilder_library_current_v1";
+const LS_LIBRARY_MIGRATED_KEY = "dtts_boardbuilder_library_migrated_v1";
 
-function getAnchorKeyFromCellKey(cellKey: string, grid: Record<string, Cell>): string | null {
-  const cell = grid[cellKey];
-  if (!cell) return null;
-  if (isAnchor(cell)) return cellKey;
-  if (isShadow(cell)) return cell.anchorKey;
-  return null;
-}
+// Réglages de l'export PDF (papier, échelle, marges)
+const LS_PDF_SETTINGS_KEY = "dtts_boardbuilder_pdf_settings_v1";
 
-function getAnchorItem(cellKey: string, grid: Record<string, Cell>): PlacedItem | null {
-  const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
-  if (!anchorKey) return null;
-  const cell = grid[anchorKey];
-  if (cell && isAnchor(cell)) return cell.item;
-  return null;
-}
+// Pièces possédées par type de tuile (inventaire)
+const LS_STOCK_KEY = "dtts_boardbuilder_stock_v1";
 
-function getFootprint(it: Pick<PlacedItem, "size">) {
-  const { w, h } = it.size;
-  return { w, h };
-}
+const randomBoardName = () => "Quartier #" + Math.floor(Math.random() * 10000);
 
-function getCellsForFootprint(anchorKey: string, fp: { w: number; h: number }) {
-  const { r, c } = getCellRC(anchorKey);
-  const out: string[] = [];
-  for (let dy = 0; dy < fp.h; dy++) {
-    for (let dx = 0; dx < fp.w; dx++) out.push(`${r + dy},${c + dx}`);
+function reviveSnapshot(raw: unknown): BoardSnapshot | null {
+  try {
+    return documentToSnapshot(raw);
+  } catch {
+    return null;
   }
-  return out;
 }
 
-function canPlaceAt(targetCell: string, itemLike: Pick<PlacedItem, "size">, grid: Record<string, Cell>, rows: number, cols: number) {
-  const fp = getFootprint(itemLike);
-  const { r, c } = getCellRC(targetCell);
-
-  if (r < 0 || c < 0) return false;
-  if (r + fp.h > rows) return false;
-  if (c + fp.w > cols) return false;
+function loadLegacyBoard(): BoardSnapshot {
+  try {
+    const rawGrid = localStorage.getItem(LS_KEY);
+    const rawSize = localStorage.getItem(LS_SIZE_KEY);
+    const name = (localStorage.getItem(LS_BOARDNAME_KEY) ?? "").trim() || randomBoardName();
 
-  const keys = getCellsForFootprint(targetCell, fp);
-  return keys.every((k) => grid[k] === null);
+    const grid = rawGrid ? (JSON.parse(rawGrid) as Record<string, Cell>) : {};
+    const size = rawSize ? (JSON.parse(rawSize) as Partial<BoardSize>) : undefined;
+    return documentToSnapshot(migrateV1Grid(grid, name, size));
+  } catch {
+    return { ...DEFAULT_BOARD_SIZE, grid: makeEmptyGrid(DEFAULT_BOARD_SIZE.rows, DEFAULT_BOARD_SIZE.cols), boardName: randomBoardName() };
+  }
 }
 
-function writeItemAtAnchor(next: Record<string, Cell>, anchorKey: string, item: PlacedItem) {
-  const fp = getFootprint(item);
-  const keys = getCellsForFootprint(anchorKey, fp);
-
-  next[anchorKey] = { kind: "anchor", item };
-  for (const k of keys) {
-    if (k === anchorKey) continue;
-    next[k] = { kind: "shadow", anchorKey };
+function loadBoard(): BoardSnapshot {
+  try {
+    const raw = localStorage.getItem(LS_BOARD_KEY);
+    if (raw) return documentToSnapshot(JSON.parse(raw));
+  } catch {
+    // sauvegarde illisible : on retente avec l'ancien format
   }
+  return loadLegacyBoard();
 }
 
-function clearItemByAnchor(next: Record<string, Cell>, anchorKey: string) {
-  const cell = next[anchorKey];
-  if (!cell || !isAnchor(cell)) return;
+// flèches du clavier → déplacement d'une case
+const ARROW_DELTAS: Record<string, { dr: number; dc: number }> = {
+  ArrowUp: { dr: -1, dc: 0 },
+  ArrowDown: { dr: 1, dc: 0 },
+  ArrowLeft: { dr: 0, dc: -1 },
+  ArrowRight: { dr: 0, dc: 1 },
+};
 
-  const fp = getFootprint(cell.item);
-  const keys = getCellsForFootprint(anchorKey, fp);
-  for (const k of keys) next[k] = null;
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
 }
 
-const ROAD_OPTION_TO_IMAGE: Record<keyof RoadOptions, string> = {
-  alien: "alien",
-  school_bus: "school_bus",
-  city_bus: "city_bus",
-};
-
 function is1x1(it: Pick<PlacedItem, "baseSize">) {
   return it.baseSize.w === 1 && it.baseSize.h === 1;
 }
 
-function getTileRotation(it: PlacedItem): TileRotation {
-  const v = it.options.rotation;
-  return (v === 0 || v === 90 || v === 180 || v === 270 ? v : 0) as TileRotation;
-}
-
 function nextRotation(curr: TileRotation, allowFull: boolean): TileRotation {
   const order: TileRotation[] = allowFull ? [0, 90, 180, 270] : [0, 90];
   const idx = order.indexOf(curr);
   return order[(idx + 1 + order.length) % order.length];
 }
 
-function mapDisplayToSource(dx: number, dy: number, baseW: number, baseH: number, rot: TileRotation) {
-  switch (rot) {
-    case 0:
-      return { sx: dx, sy: dy };
-    case 90:
-      return { sx: dy, sy: baseH - 1 - dx };
-    case 180:
-      return { sx: baseW - 1 - dx, sy: baseH - 1 - dy };
-    case 270:
-      return { sx: baseW - 1 - dy, sy: dx };
-  }
-}
-
-function getSliceStyle(it: PlacedItem, cellKey: string, anchorKey: string): React.CSSProperties {
-  const { r: ar, c: ac } = getCellRC(anchorKey);
-  const { r: cr, c: cc } = getCellRC(cellKey);
-
-  const dx = cc - ac;
-  const dy = cr - ar;
-
-  const baseW = it.baseSize.w;
-  const baseH = it.baseSize.h;
-
-  const rot = getTileRotation(it);
-  const { sx, sy } = mapDisplayToSource(dx, dy, baseW, baseH, rot);
-
-  const xPct = baseW <= 1 ? 50 : (sx / (baseW - 1)) * 100;
-  const yPct = baseH <= 1 ? 50 : (sy / (baseH - 1)) * 100;
-
-  return {
-    backgroundSize: `${baseW * 100}% ${baseH * 100}%`,
-    backgroundPosition: `${xPct}% ${yPct}%`,
-  };
-}
-
-function getDefaultOptions(tileType: TileType, size?: { w: number; h: number }): PlacedOptions {
-  const w = size?.w ?? 1;
-  const h = size?.h ?? 1;
-
-  switch (tileType) {
-    case "road":
-      return { alien: false, school_bus: false, city_bus: false, rotation: 0 };
-
-    case "school":
-    case "safe_place":
-      return {
-        rotation: 0,
-        topSegments: Array.from({ length: w }, () => false),
-        bottomSegments: Array.from({ length: w }, () => false),
-        leftSegments: Array.from({ length: h }, () => false),
-        rightSegments: Array.from({ length: h }, () => false),
-      };
-
-    default:
-      return { rotation: 0 };
-  }
-}
-
-function normalizeOptions(it: PlacedItem): PlacedItem {
-  const baseW = it.baseSize?.w ?? it.size.w;
-  const baseH = it.baseSize?.h ?? it.size.h;
-
-  const defaults = getDefaultOptions(it.tileType, { w: baseW, h: baseH });
-  const merged: PlacedOptions = { ...defaults, ...(it.options ?? {}) };
-
-  merged.rotation = (merged.rotation === 90 || merged.rotation === 180 || merged.rotation === 270 ? merged.rotation : 0) as TileRotation;
-
-  const rot = merged.rotation as TileRotation;
-  const swap = rot === 90 || rot === 270;
-  const expectedSize = swap ? { w: baseH, h: baseW } : { w: baseW, h: baseH };
-  const nextSize = { w: expectedSize.w, h: expectedSize.h };
-
-  if (it.tileType === "school" || it.tileType === "safe_place") {
-    const w = nextSize.w;
-    const h = nextSize.h;
-
-    const top = (merged.topSegments ?? []) as boolean[];
-    const bottom = (merged.bottomSegments ?? []) as boolean[];
-    const left = (merged.leftSegments ?? []) as boolean[];
-    const right = (merged.rightSegments ?? []) as boolean[];
-
-    merged.topSegments = Array.from({ length: w }, (_, i) => !!top[i]);
-    merged.bottomSegments = Array.from({ length: w }, (_, i) => !!bottom[i]);
-    merged.leftSegments = Array.from({ length: h }, (_, i) => !!left[i]);
-    merged.rightSegments = Array.from({ length: h }, (_, i) => !!right[i]);
-  }
-
-  if (it.tileType === "road") {
-    merged.alien = !!merged.alien;
-    merged.school_bus = !!merged.school_bus;
-    merged.city_bus = !!merged.city_bus;
-  }
-
-  return { ...it, baseSize: { w: baseW, h: baseH }, size: nextSize, options: merged };
-}
-
-function rotateSegmentsCW90(opts: PlacedOptions, w: number, h: number): PlacedOptions {
-  const top = (opts.topSegments ?? Array.from({ length: w }, () => false)) as boolean[];
-  const bottom = (opts.bottomSegments ?? Array.from({ length: w }, () => false)) as boolean[];
-  const left = (opts.leftSegments ?? Array.from({ length: h }, () => false)) as boolean[];
-  const right = (opts.rightSegments ?? Array.from({ length: h }, () => false)) as boolean[];
-
-  const newW = h;
-  const newH = w;
-
-  const newTop = Array.from({ length: newW }, (_, i) => !!left[h - 1 - i]);
-  const newRight = Array.from({ length: newH }, (_, i) => !!top[i]);
-  const newBottom = Array.from({ length: newW }, (_, i) => !!right[h - 1 - i]);
-  const newLeft = Array.from({ length: newH }, (_, i) => !!bottom[i]);
-
-  return { ...opts, topSegments: newTop, rightSegments: newRight, bottomSegments: newBottom, leftSegments: newLeft };
-}
-
-function rotateSegmentsBy(opts: PlacedOptions, w: number, h: number, stepsCW: number) {
-  let out = { ...opts };
-  let cw = stepsCW % 4;
-  let curW = w;
-  let curH = h;
-
-  for (let i = 0; i < cw; i++) {
-    out = rotateSegmentsCW90(out, curW, curH);
-    const nextW = curH;
-    const nextH = curW;
-    curW = nextW;
-    curH = nextH;
-  }
-
-  return { opts: out, w: curW, h: curH };
-}
-
 function rotationDeltaCW(prev: TileRotation, next: TileRotation) {
   const d = (next - prev + 360) % 360;
   return d / 90;
@@ -327,9 +227,6 @@ function makeDragPreviewEl(it: PlacedItem, cellPx: number, getTileUrl: (type: st
   const rotation = getTileRotation(it);
   const roadOverlay = it.tileType === "road" ? getRoadOverlay(it) : null;
 
-  const baseW = it.baseSize.w;
-  const baseH = it.baseSize.h;
-
   for (let dy = 0; dy < it.size.h; dy++) {
     for (let dx = 0; dx < it.size.w; dx++) {
       const cell = document.createElement("div");
@@ -338,18 +235,15 @@ function makeDragPreviewEl(it: PlacedItem, cellPx: number, getTileUrl: (type: st
       cell.style.position = "relative";
       cell.style.overflow = "hidden";
 
-      const { sx, sy } = mapDisplayToSource(dx, dy, baseW, baseH, rotation);
-
-      const xPct = baseW <= 1 ? 50 : (sx / (baseW - 1)) * 100;
-      const yPct = baseH <= 1 ? 50 : (sy / (baseH - 1)) * 100;
+      const slice = getSliceBackground(it, dx, dy);
 
       const bg = document.createElement("div");
       bg.style.position = "absolute";
       bg.style.inset = "0";
       bg.style.backgroundImage = `url(${tileBg})`;
       bg.style.backgroundRepeat = "no-repeat";
-      bg.style.backgroundSize = `${baseW * 100}% ${baseH * 100}%`;
-      bg.style.backgroundPosition = `${xPct}% ${yPct}%`;
+      bg.style.backgroundSize = slice.backgroundSize;
+      bg.style.backgroundPosition = slice.backgroundPosition;
 
       if (rotation) {
         bg.style.transform = `rotate(${rotation}deg)`;
@@ -377,6 +271,44 @@ function makeDragPreviewEl(it: PlacedItem, cellPx: number, getTileUrl: (type: st
   return root;
 }
 
+// aperçu d'un groupe : une image par tuile, placées comme sur la grille
+function makeGroupPreviewEl(group: TileGroup, cellPx: number, getTileUrl: (type: string) => string, getRoadOverlay: (it: PlacedItem) => string | null) {
+  const root = document.createElement("div");
+  root.style.position = "fixed";
+  root.style.left = "-10000px";
+  root.style.top = "-10000px";
+  root.style.width = `${group.size.w * cellPx}px`;
+  root.style.height = `${group.size.h * cellPx}px`;
+  root.style.pointerEvents = "none";
+  root.style.zIndex = "999999";
+
+  for (const { dr, dc, item } of group.items) {
+    const el = makeDragPreviewEl(item, cellPx, getTileUrl, getRoadOverlay);
+    el.style.position = "absolute";
+    el.style.left = `${dc * cellPx}px`;
+    el.style.top = `${dr * cellPx}px`;
+    root.appendChild(el);
+  }
+
+  document.body.appendChild(root);
+  return root;
+}
+
+// tuile de la palette telle qu'elle serait posée, pour l'aperçu du glisser
+function makePalettePreviewItem(p: PaletteItem): PlacedItem {
+  const baseSize = p.size ?? { w: 1, h: 1 };
+  return {
+    id: "preview",
+    type: p.type,
+    tileType: p.tileType,
+    name: p.name,
+    colorClass: p.colorClass,
+    baseSize,
+    size: baseSize,
+    options: getDefaultOptions(p.tileType, baseSize),
+  };
+}
+
 function startDragMoveFromCell(
   e: React.DragEvent,
   it: PlacedItem,
@@ -408,548 +340,269 @@ function startDragMoveFromCell(
   requestAnimationFrame(() => preview.remove());
 }
 
-async function loadTtfAsBase64(url: string): Promise<string> {
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`Font fetch failed: ${res.status}`);
-  const buf = await res.arrayBuffer();
-  const bytes = new Uint8Array(buf);
-
-  let binary = "";
-  const chunkSize = 0x8000;
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
-  }
-  return btoa(binary);
-}
-
-async function generateBoardPdf(args: {
-  rows: number;
-  cols: number;
-  grid: Record<string, Cell>;
-  boardName: string;
-  getTileUrl: (type: string) => string;
-  getRoadOverlay: (it: PlacedItem) => string | null;
-}) {
-  const { rows, cols, grid, boardName, getTileUrl, getRoadOverlay } = args;
-
-  const pdf = new jsPDF({
-    orientation: "landscape",
-    unit: "cm",
-    format: "a4",
-    compress: true,
-  });
-
-  const PAGE_W = 29.7;
-  const PAGE_H = 21.0;
-
-  const FRAME_PAD = 0.6;
-  const FRAME_RADIUS = 0.35;
-  const HEADER_H = 0.4;
-  const FOOTER_H = 3.0;
-  const LEFT_GUTTER = 1.0;
-
-  const CELL_CM = 3;
-  const CELL_PX = 360;
-
-  const C_BG = { r: 255, g: 32, b: 32 };
-  const C_CELL = { r: 150, g: 18, b: 18 };
-  const C_GRID = { r: 120, g: 120, b: 120 };
-  const C_TEXT = { r: 30, g: 30, b: 30 };
-  const C_NAME = { r: 245, g: 186, b: 18 };
-  const C_BLACK = { r: 0, g: 0, b: 0 };
-
-  // Couleurs overlays (rectangles)
-  const C_BLUE = { r: 59, g: 130, b: 246 }; // proche bg-blue-500
-  const C_ORANGE = { r: 251, g: 146, b: 60 }; // proche bg-orange-400
-
-  const safePdfName = (s: string) => {
-    const v = (s || "plateau").trim();
-    const cleaned = v.replace(/[\\/:*?"<>|]+/g, "-");
-    return cleaned.length ? cleaned : `plateau-ddts#${Math.floor(Math.random() * 10000)}`;
-  };
-
-  // Font
-  try {
-    const base64 = await loadTtfAsBase64(hoboTtfUrl);
-    pdf.addFileToVFS("hobo.ttf", base64);
-    pdf.addFont("hobo.ttf", "hobo", "normal");
-  } catch {
-    // fallback silencieux
-  }
-
-  const loadImage = (src: string): Promise<HTMLImageElement> =>
-    new Promise((resolve, reject) => {
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      img.src = src;
-    });
-
-  const buildRotatedTileCanvas = (img: HTMLImageElement, baseW: number, baseH: number, cellPx: number, rot: TileRotation) => {
-    const swap = rot === 90 || rot === 270;
-
-    // Taille affichée (après rotation)
-    const dispW = (swap ? baseH : baseW) * cellPx;
-    const dispH = (swap ? baseW : baseH) * cellPx;
-
-    const canvas = document.createElement("canvas");
-    canvas.width = dispW;
-    canvas.height = dispH;
-
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return canvas;
-
-    ctx.imageSmoothingEnabled = true;
-    ctx.clearRect(0, 0, dispW, dispH);
-
-    // On dessine l’image au centre et on applique la rotation (comme un transform CSS)
-    const rad = (rot * Math.PI) / 180;
-
-    ctx.translate(dispW / 2, dispH / 2);
-    ctx.rotate(rad);
-
-    const srcW = baseW * cellPx;
-    const srcH = baseH * cellPx;
-
-    ctx.drawImage(img, -srcW / 2, -srcH / 2, srcW, srcH);
-
-    // Reset transform pour éviter les effets de bord
-    ctx.setTransform(1, 0, 0, 1, 0, 0);
-
-    return canvas;
-  };
-
-  const cropCellFromFullTile = (full: HTMLCanvasElement, sx: number, sy: number, cellPx: number) => {
-    const out = document.createElement("canvas");
-    out.width = cellPx;
-    out.height = cellPx;
-    const ctx = out.getContext("2d");
-    if (!ctx) return out;
-    ctx.imageSmoothingEnabled = true;
-    ctx.clearRect(0, 0, cellPx, cellPx);
-    ctx.drawImage(full, sx * cellPx, sy * cellPx, cellPx, cellPx, 0, 0, cellPx, cellPx);
-    return out;
-  };
-
-  const frameX = FRAME_PAD;
-  const frameY = FRAME_PAD;
-  const frameW = PAGE_W - 2 * FRAME_PAD;
-  const frameH = PAGE_H - 2 * FRAME_PAD;
-
-  pdf.setFillColor(255, 255, 255);
-  pdf.rect(0, 0, PAGE_W, PAGE_H, "F");
-
-  pdf.setFillColor(0, 0, 0);
-  pdf.setGState(new (pdf as any).GState({ opacity: 0.12 }));
-  pdf.roundedRect(frameX + 0.12, frameY + 0.12, frameW, frameH, FRAME_RADIUS, FRAME_RADIUS, "F");
-  pdf.setGState(new (pdf as any).GState({ opacity: 0.06 }));
-  pdf.roundedRect(frameX + 0.22, frameY + 0.22, frameW, frameH, FRAME_RADIUS, FRAME_RADIUS, "F");
-  pdf.setGState(new (pdf as any).GState({ opacity: 1 }));
-
-  pdf.setFillColor(C_BG.r, C_BG.g, C_BG.b);
-  pdf.roundedRect(frameX, frameY, frameW, frameH, FRAME_RADIUS, FRAME_RADIUS, "F");
-
-  const gridWcm = cols * CELL_CM;
-  const gridHcm = rows * CELL_CM;
-
-  const gridAreaX = frameX + LEFT_GUTTER;
-  const gridAreaY = frameY + HEADER_H;
-  const gridAreaW = frameW - LEFT_GUTTER - 0.6;
-  const gridAreaH = frameH - HEADER_H - FOOTER_H;
-
-  const startX = gridWcm <= gridAreaW ? gridAreaX + (gridAreaW - gridWcm) / 2 : gridAreaX;
-  const startY = gridHcm <= gridAreaH ? gridAreaY + (gridAreaH - gridHcm) / 2 : gridAreaY;
-
-  // --- TEXTE VERTICAL À GAUCHE ---
-  const sideText = `Carte créée sur dtts-builder.thomaspelfrene.com (v${version}) | Imprimé le ${new Date().toLocaleDateString()} | Carte de jeu non officielle | thomaspelfrene.com`;
-
-  pdf.setFont("helvetica", "normal");
-  pdf.setFontSize(8);
-  pdf.setTextColor(C_TEXT.r, C_TEXT.g, C_TEXT.b);
-
-  const sideX = frameX + 0.55;
-  const sideY = startY + gridHcm - 0.2;
-
-  pdf.text(sideText, sideX, sideY, { angle: 90, align: "left" });
-
-  // --- GRILLE (fond) ---
-  pdf.setLineWidth(0.04);
-  pdf.setDrawColor(C_GRID.r, C_GRID.g, C_GRID.b);
-
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c < cols; c++) {
-      const x = startX + c * CELL_CM;
-      const y = startY + r * CELL_CM;
+function startDragGroupFromCell(
+  e: React.DragEvent,
+  group: TileGroup,
+  placedIds: string[],
+  origin: { r: number; c: number },
+  cellKey: string,
+  cellSize: number,
+  getTileUrl: (type: string) => string,
+  getRoadOverlay: (it: PlacedItem) => string | null
+) {
+  const { r: cr, c: cc } = getCellRC(cellKey);
+  const grabOffset = { dx: cc - origin.c, dy: cr - origin.r };
 
-      pdf.setFillColor(C_CELL.r, C_CELL.g, C_CELL.b);
-      pdf.rect(x, y, CELL_CM, CELL_CM, "F");
-    }
-  }
+  const payload: DragPayload = { kind: "group", placedIds, grabOffset };
+  e.dataTransfer.setData("application/x-boardbuilder", JSON.stringify(payload));
+  e.dataTransfer.effectAllowed = "copyMove";
 
-  // --- ENCART JAUNE EN BAS ---
-  const bottomBoxW = gridWcm * 0.5;
-  const bottomBoxH = 0.8;
-  const bottomGap = 0.3;
+  const preview = makeGroupPreviewEl(group, cellSize, getTileUrl, getRoadOverlay);
 
-  const bottomBoxX = startX;
-  const bottomBoxY = startY + gridHcm + bottomGap;
+  const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+  const ox = Math.floor(grabOffset.dx * cellSize + e.clientX - rect.left);
+  const oy = Math.floor(grabOffset.dy * cellSize + e.clientY - rect.top);
 
-  pdf.setFillColor(C_NAME.r, C_NAME.g, C_NAME.b);
-  pdf.setDrawColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
-  pdf.setLineWidth(0.06);
-  pdf.rect(bottomBoxX, bottomBoxY, bottomBoxW, bottomBoxH, "FD");
+  e.dataTransfer.setDragImage(preview, ox, oy);
+  requestAnimationFrame(() => preview.remove());
+}
 
-  pdf.setTextColor(C_BLACK.r, C_BLACK.g, C_BLACK.b);
-  try {
-    pdf.setFont("hobo", "normal");
-  } catch {
-    pdf.setFont("helvetica", "bold");
-  }
-  pdf.setFontSize(13);
+// -------------------------------------------------------------------------
 
-  const innerPadX = 0.35;
-  const textY = bottomBoxY + 0.55;
+export default function BoardBuilder() {
+  const navigate = useNavigate();
+  const location = useLocation();
 
-  pdf.text(boardName || "", bottomBoxX + innerPadX, textY, { align: "left" });
+  // téléphone : palette et options en panneaux du bas ; écran tactile : glisser au doigt plutôt que drag HTML5
+  const isCompact = useMediaQuery(COMPACT_LAYOUT_QUERY);
+  const isCoarsePointer = useMediaQuery(COARSE_POINTER_QUERY);
+  const [sheet, setSheet] = useState<"palette" | "options" | null>(null);
 
-  // --- TILES ---
-  const imgCache = new Map<string, HTMLImageElement>();
-  const fullTileCache = new Map<string, HTMLCanvasElement>();
-  const overlayImgCache = new Map<string, HTMLImageElement>();
+  const [isGameMode, setIsGameMode] = useState(false);
 
-  async function getImg(type: string) {
-    const cached = imgCache.get(type);
-    if (cached) return cached;
-    const img = await loadImage(getTileUrl(type));
-    imgCache.set(type, img);
-    return img;
-  }
+  // Grille + nom passent par l'historique : chaque modification devient annulable
+  const history = useHistoryState(loadBoard, {
+    storageKey: LS_HISTORY_KEY,
+    limit: HISTORY_LIMIT,
+    serialize: snapshotToDocument,
+    deserialize: reviveSnapshot,
+  });
+  const { rows, cols, grid, boardName } = history.present;
+  const { undo, redo, canUndo, canRedo } = history;
 
-  async function getOverlayImg(src: string) {
-    const cached = overlayImgCache.get(src);
-    if (cached) return cached;
-    const img = await loadImage(src);
-    overlayImgCache.set(src, img);
-    return img;
+  function setGrid(next: Record<string, Cell> | ((prev: Record<string, Cell>) => Record<string, Cell>)) {
+    history.update((s) => {
+      const g = typeof next === "function" ? next(s.grid) : next;
+      return g === s.grid ? s : { ...s, grid: g };
+    });
   }
 
-  function getAnchorKey(cellKey: string) {
-    return getAnchorKeyFromCellKey(cellKey, grid);
+  function setBoardName(name: string) {
+    history.update((s) => (s.boardName === name ? s : { ...s, boardName: name }), { coalesceKey: "boardName" });
   }
 
-  function getItem(anchorKey: string) {
-    const cell = grid[anchorKey];
-    if (cell && isAnchor(cell)) return cell.item;
-    return null;
+  function resizeBoard(size: BoardSize) {
+    if (isGameMode) return;
+    history.update((s) => {
+      if (s.rows === size.rows && s.cols === size.cols) return s;
+      const resized = resizeGrid(s.grid, size.rows, size.cols);
+      return { ...s, ...size, grid: resized.grid };
+    });
+    setSelectedCell(null);
   }
 
-  // 1) Dessin des images de tuiles
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c < cols; c++) {
-      const cellKey = `${r},${c}`;
-      const anchorKey = getAnchorKey(cellKey);
-      if (!anchorKey) continue;
-
-      const it = getItem(anchorKey);
-      if (!it) continue;
-
-      const baseW = it.baseSize.w;
-      const baseH = it.baseSize.h;
-      const rot = getTileRotation(it);
-
-      const { r: ar, c: ac } = getCellRC(anchorKey);
-      const dx = c - ac;
-      const dy = r - ar;
-
-      // dx/dy = position affichée dans la tuile (après rotation)
-      const sx = dx;
-      const sy = dy;
-
-      // ✅ inclure la rotation dans la clé de cache, sinon tu réutilises un canvas pas dans le bon sens
-      const fullKey = `${anchorKey}|${it.type}|${baseW}x${baseH}|rot=${rot}`;
-      let fullCanvas = fullTileCache.get(fullKey);
-
-      if (!fullCanvas) {
-        const img = await getImg(it.type);
-        fullCanvas = buildRotatedTileCanvas(img, baseW, baseH, CELL_PX, rot);
-        fullTileCache.set(fullKey, fullCanvas);
+  useEffect(() => {
+    const t = window.setTimeout(() => {
+      try {
+        localStorage.setItem(LS_BOARD_KEY, JSON.stringify(snapshotToDocument(history.present)));
+        localStorage.removeItem(LS_KEY);
+        localStorage.removeItem(LS_BOARDNAME_KEY);
+        localStorage.removeItem(LS_SIZE_KEY);
+      } catch {
+        // stockage plein ou indisponible : on garde le plateau en mémoire
       }
+    }, 150);
+    return () => window.clearTimeout(t);
+  }, [history.present]);
 
-      const cellCanvas = cropCellFromFullTile(fullCanvas, sx, sy, CELL_PX);
-
-      const overlaySrc = it.tileType === "road" ? getRoadOverlay(it) : null;
-      if (overlaySrc) {
-        const ovImg = await getOverlayImg(overlaySrc);
-        const ctx = cellCanvas.getContext("2d");
-        if (ctx) {
-          const w = cellCanvas.width;
-          const h = cellCanvas.height;
-
-          const iw = ovImg.naturalWidth || 1;
-          const ih = ovImg.naturalHeight || 1;
-          const scale = Math.min(w / iw, h / ih);
-          const dw = iw * scale;
-          const dh = ih * scale;
+  const [selectedCell, setSelectedCell] = useState<string | null>(null);
 
-          ctx.drawImage(ovImg, (w - dw) / 2, (h - dh) / 2, dw, dh);
-        }
-      }
+  // sélection multiple (ids de tuiles) et presse-papiers interne
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const clipboardRef = useRef<TileGroup | null>(null);
+  const [pasteGroup, setPasteGroup] = useState<TileGroup | null>(null);
+  const [pasteHover, setPasteHover] = useState<string | null>(null);
 
-      const dataUrl = cellCanvas.toDataURL("image/png");
-      const x = startX + c * CELL_CM;
-      const y = startY + r * CELL_CM;
-      pdf.addImage(dataUrl, "PNG", x, y, CELL_CM, CELL_CM);
-    }
-  }
+  // accessibilité : choix d'une tuile au clavier et annonces pour les lecteurs d'écran
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [announcement, setAnnouncement] = useState("");
 
-  // 2) Dessin des rectangles (bleu/orange) PAR-DESSUS les tuiles
-  //    On colle le plus possible au rendu EdgeRect (length=60%, thickness=18%, offset=thickness/1.35).
-  const EDGE_LEN = CELL_CM * 0.6;
-  const EDGE_TH = CELL_CM * 0.18;
-  const EDGE_OFF = EDGE_TH / 1.35;
+  // pose case par case : tuile de la palette armée par un appui simple
+  const [placingType, setPlacingType] = useState<string | null>(null);
 
-  function drawEdgeRectPdf(cellX: number, cellY: number, side: "top" | "right" | "bottom" | "left", color: typeof C_BLUE) {
-    const strokeW = 0.03;
+  const gridAreaRef = useRef<HTMLDivElement | null>(null);
+  const [cellSize, setCellSize] = useState<number>(64);
 
-    pdf.setFillColor(color.r, color.g, color.b);
-    pdf.setDrawColor(0, 0, 0);
-    pdf.setLineWidth(strokeW);
+  const [isPrintModalOpen, setIsPrintModalOpen] = useState(false);
+  const [isImageModalOpen, setIsImageModalOpen] = useState(false);
+  const [isSizeModalOpen, setIsSizeModalOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isAnalysisOpen, setIsAnalysisOpen] = useState(false);
 
-    if (side === "top") {
-      const x = cellX + (CELL_CM - EDGE_LEN) / 2;
-      const y = cellY - EDGE_OFF;
-      pdf.rect(x, y, EDGE_LEN, EDGE_TH, "F");
-      return;
+  // réglages de l'export PDF, conservés d'une session à l'autre
+  const [pdfSettings, setPdfSettings] = useState<PdfExportSettings>(() => {
+    try {
+      const raw = localStorage.getItem(LS_PDF_SETTINGS_KEY);
+      return normalizePdfSettings(raw ? JSON.parse(raw) : null);
+    } catch {
+      return normalizePdfSettings(null);
     }
+  });
 
-    if (side === "bottom") {
-      const x = cellX + (CELL_CM - EDGE_LEN) / 2;
-      const y = cellY + CELL_CM - EDGE_TH + EDGE_OFF;
-      pdf.rect(x, y, EDGE_LEN, EDGE_TH, "F");
-      return;
+  useEffect(() => {
+    try {
+      localStorage.setItem(LS_PDF_SETTINGS_KEY, JSON.stringify(pdfSettings));
+    } catch {
+      // stockage indisponible
     }
+  }, [pdfSettings]);
 
-    if (side === "left") {
-      const x = cellX - EDGE_OFF;
-      const y = cellY + (CELL_CM - EDGE_LEN) / 2;
-      pdf.rect(x, y, EDGE_TH, EDGE_LEN, "F");
-      return;
+  // pièces possédées (boîte de jeu) : l'inventaire signale ce qui manque
+  const [isInventoryOpen, setIsInventoryOpen] = useState(false);
+  const [stock, setStock] = useState<OwnedStock>(() => {
+    try {
+      const raw = localStorage.getItem(LS_STOCK_KEY);
+      return normalizeStock(raw ? JSON.parse(raw) : null);
+    } catch {
+      return {};
     }
+  });
 
-    // right
-    const x = cellX + CELL_CM - EDGE_TH + EDGE_OFF;
-    const y = cellY + (CELL_CM - EDGE_LEN) / 2;
-    pdf.rect(x, y, EDGE_TH, EDGE_LEN, "F");
-  }
-
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c < cols; c++) {
-      const cellKey = `${r},${c}`;
-      const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
-      if (!anchorKey) continue;
-
-      const it = getAnchorItem(anchorKey, grid);
-      if (!it) continue;
-
-      // uniquement school + safe_place (comme ton UI)
-      if (it.tileType !== "school" && it.tileType !== "safe_place") continue;
-
-      const rects = getRectsForCell(cellKey, grid);
-      if (!rects.top && !rects.right && !rects.bottom && !rects.left) continue;
-
-      const cellX = startX + c * CELL_CM;
-      const cellY = startY + r * CELL_CM;
-
-      const color = it.tileType === "school" ? C_BLUE : C_ORANGE;
-
-      if (rects.top) drawEdgeRectPdf(cellX, cellY, "top", color);
-      if (rects.right) drawEdgeRectPdf(cellX, cellY, "right", color);
-      if (rects.bottom) drawEdgeRectPdf(cellX, cellY, "bottom", color);
-      if (rects.left) drawEdgeRectPdf(cellX, cellY, "left", color);
+  useEffect(() => {
+    try {
+      localStorage.setItem(LS_STOCK_KEY, JSON.stringify(stock));
+    } catch {
+      // stockage indisponible
     }
-  }
-
-  pdf.save(`${safePdfName(boardName)}.pdf`);
-}
-
-// -------------------------------------------------------------------------
-
-function getRectsForCell(cellKey: string, grid: Record<string, Cell>) {
-  const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
-  if (!anchorKey) return { top: false, right: false, bottom: false, left: false };
+  }, [stock]);
 
-  const it = getAnchorItem(anchorKey, grid);
-  if (!it) return { top: false, right: false, bottom: false, left: false };
-
-  const { r: ar, c: ac } = getCellRC(anchorKey);
-  const { r: cr, c: cc } = getCellRC(cellKey);
-
-  const dx = cc - ac;
-  const dy = cr - ar;
-
-  const w = it.size.w;
-  const h = it.size.h;
-
-  if (it.tileType === "school" || it.tileType === "safe_place") {
-    const topSegments = (it.options.topSegments ?? []) as boolean[];
-    const bottomSegments = (it.options.bottomSegments ?? []) as boolean[];
-    const leftSegments = (it.options.leftSegments ?? []) as boolean[];
-    const rightSegments = (it.options.rightSegments ?? []) as boolean[];
-
-    const top = dy === 0 ? !!topSegments[dx] : false;
-    const bottom = dy === h - 1 ? !!bottomSegments[dx] : false;
-    const left = dx === 0 ? !!leftSegments[dy] : false;
-    const right = dx === w - 1 ? !!rightSegments[dy] : false;
-
-    return { top, right, bottom, left };
-  }
-
-  return { top: false, right: false, bottom: false, left: false };
-}
-
-function EdgeRect({ side, color }: { side: "top" | "right" | "bottom" | "left"; color: "blue" | "orange" }) {
-  const base = "pointer-events-none absolute z-30 shadow-[0_0_0_1px_rgba(0,0,0,0.35)]";
-  const colorClass = color === "blue" ? "bg-blue-500" : "bg-orange-400";
-
-  const length = "60%";
-  const thickness = "18%";
-
-  const style: React.CSSProperties = (() => {
-    switch (side) {
-      case "top":
-        return { left: "50%", top: `calc(0px - (${thickness} / 1.35))`, width: length, height: thickness, transform: "translateX(-50%)" };
-      case "bottom":
-        return { left: "50%", bottom: `calc(0px - (${thickness} / 1.35))`, width: length, height: thickness, transform: "translateX(-50%)" };
-      case "left":
-        return { top: "50%", left: `calc(0px - (${thickness} / 1.35))`, width: thickness, height: length, transform: "translateY(-50%)" };
-      case "right":
-        return { top: "50%", right: `calc(0px - (${thickness} / 1.35))`, width: thickness, height: length, transform: "translateY(-50%)" };
+  // ---------------------------------------------------------------------
+  // BIBLIOTHÈQUE : plateau ouvert + dernier état enregistré (pour savoir s'il y a des modifs)
+  const [currentBoardId, setCurrentBoardId] = useState<string | null>(() => {
+    try {
+      return localStorage.getItem(LS_CURRENT_ID_KEY);
+    } catch {
+      return null;
     }
-  })();
+  });
+  const [savedDocJson, setSavedDocJson] = useState<string | null>(null);
 
-  return <div className={[base, colorClass].join(" ")} style={style} />;
-}
+  const stockShortages = useMemo(() => getStockShortages(computeInventory(grid, stock)), [grid, stock]);
+  const remainingStock = useMemo(() => getRemainingStock(grid, stock), [grid, stock]);
+  const validation = useMemo(() => validateBoard({ rows, cols, grid }), [rows, cols, grid]);
+  const reachability = useMemo(() => (isAnalysisOpen ? analyzeReachability({ rows, cols, grid }) : null), [isAnalysisOpen, rows, cols, grid]);
 
-export default function BoardBuilder() {
-  const navigate = useNavigate();
+  const currentDocJson = useMemo(() => JSON.stringify(snapshotToDocument(history.present)), [history.present]);
+  const hasItems = Object.values(grid).some((cell) => !!cell);
+  const isDirty = savedDocJson === null ? hasItems : savedDocJson !== currentDocJson;
 
   useEffect(() => {
-    if (isMobile()) {
-      navigate("/mobile", { replace: true });
+    try {
+      if (currentBoardId) localStorage.setItem(LS_CURRENT_ID_KEY, currentBoardId);
+      else localStorage.removeItem(LS_CURRENT_ID_KEY);
+    } catch {
+      // stockage indisponible
     }
-  }, [navigate]);
+  }, [currentBoardId]);
 
-  const rows = 6;
-  const cols = 8;
+  const initialBoardRef = useRef(history.present);
 
-  const LS_KEY = "dtts_boardbuilder_grid_v1";
-  const LS_BOARDNAME_KEY = "dtts_boardbuilder_name_v1";
+  useEffect(() => {
+    let alive = true;
 
-  const [isGameMode, setIsGameMode] = useState(false);
+    (async () => {
+      try {
+        const id = localStorage.getItem(LS_CURRENT_ID_KEY);
+        if (id) {
+          const entry = await getBoard(id);
+          if (!alive) return;
+          if (entry) {
+            setSavedDocJson(JSON.stringify(entry.document));
+            return;
+          }
+          setCurrentBoardId(null);
+        }
 
-  const getTileUrl = (type: string) => new URL(`../assets/tiles/${type}.png`, import.meta.url).href;
-  const getOptionUrl = (fileBase: string) => new URL(`../assets/options/${fileBase}.png`, import.meta.url).href;
+        if (localStorage.getItem(LS_LIBRARY_MIGRATED_KEY)) return;
 
-  function getRoadOptionOverlay(it: PlacedItem): string | null {
-    if (it.tileType !== "road") return null;
+        // Premier lancement : le plateau de l'emplacement unique devient le premier de la bibliothèque
+        const existing = await listBoards();
+        const board = initialBoardRef.current;
+        const hasContent = Object.values(board.grid).some((cell) => !!cell);
+        if (!alive) return;
 
-    const order: Array<keyof RoadOptions> = ["alien", "school_bus", "city_bus"];
-    const active = order.find((k) => !!it.options[k]);
-    if (!active) return null;
+        if (existing.length === 0 && hasContent) {
+          const doc = snapshotToDocument(board);
+          const entry = await putBoard(createEntry(doc, await renderBoardThumbnail(board).catch(() => null)));
+          if (!alive) return;
+          setCurrentBoardId(entry.id);
+          setSavedDocJson(JSON.stringify(doc));
+        }
+        localStorage.setItem(LS_LIBRARY_MIGRATED_KEY, "1");
+      } catch {
+        // IndexedDB indisponible (navigation privée…) : l'éditeur fonctionne sans bibliothèque
+      }
+    })();
 
-    const fileBase = ROAD_OPTION_TO_IMAGE[active];
-    return getOptionUrl(fileBase);
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  async function saveToLibrary(saveAsName?: string) {
+    const snapshot = saveAsName ? { ...history.present, boardName: saveAsName } : history.present;
+    const doc = snapshotToDocument(snapshot);
+    const thumbnail = await renderBoardThumbnail(snapshot).catch(() => null);
+
+    const existing = !saveAsName && currentBoardId ? await getBoard(currentBoardId) : null;
+    const entry: LibraryEntry = existing
+      ? { ...existing, name: doc.boardName, document: doc, thumbnail, updatedAt: new Date().toISOString() }
+      : createEntry(doc, thumbnail);
+
+    await putBoard(entry);
+    if (saveAsName && saveAsName !== boardName) setBoardName(saveAsName);
+    setCurrentBoardId(entry.id);
+    setSavedDocJson(JSON.stringify(doc));
   }
 
-  const palette: PaletteItem[] = useMemo(
-    () => [
-      { type: "crossroads-1x1", tileType: "road", name: "Croisement", colorClass: "bg-slate-600", size: { w: 1, h: 1 } },
-      { type: "curve_road-1x1", tileType: "road", name: "Virage", colorClass: "bg-slate-600", size: { w: 1, h: 1 } },
-      { type: "straight_road-1x1", tileType: "road", name: "Ligne droite", colorClass: "bg-slate-600", size: { w: 1, h: 1 } },
-      { type: "end_road-1x1", tileType: "road", name: "Cul-de-sac", colorClass: "bg-slate-600", size: { w: 1, h: 1 } },
-      { type: "forest-1x1", tileType: "road", name: "Forêt", colorClass: "bg-slate-600", size: { w: 1, h: 1 } },
-
-      { type: "school-1x1", tileType: "school", name: "École", colorClass: "bg-gray-600", size: { w: 1, h: 1 } },
-      { type: "school-2x1", tileType: "school", name: "École (2x1)", colorClass: "bg-gray-600", size: { w: 2, h: 1 } },
-
-      { type: "library-2x1", tileType: "safe_place", name: "Bibliothèque", colorClass: "bg-blue-600", size: { w: 2, h: 1 } },
-      { type: "library_bis-2x1", tileType: "safe_place", name: "Bibliothèque", colorClass: "bg-blue-600", size: { w: 2, h: 1 } },
-      { type: "house_2-1x1", tileType: "safe_place", name: "Pavillon", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
-      { type: "house_3-1x1", tileType: "safe_place", name: "Pavillon", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
-      { type: "house_5-1x1", tileType: "safe_place", name: "Pavillon", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
-      { type: "manor_7-1x1", tileType: "safe_place", name: "Manoir", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
-      { type: "manor_8-1x1", tileType: "safe_place", name: "Manoir", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
-
-      { type: "parc-1x1", tileType: "safe_place", name: "Parc", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
-      { type: "parc-2x1", tileType: "safe_place", name: "Parc (2x1)", colorClass: "bg-blue-600", size: { w: 2, h: 1 } },
-      { type: "gymnasium-3x1", tileType: "safe_place", name: "Gymnase", colorClass: "bg-blue-600", size: { w: 3, h: 1 } },
-      { type: "secret_club-1x2", tileType: "safe_place", name: "Club secret", colorClass: "bg-blue-600", size: { w: 1, h: 2 } },
-      { type: "prom-2x1", tileType: "safe_place", name: "Bal de promo", colorClass: "bg-blue-600", size: { w: 2, h: 1 } },
-
-      { type: "swimming_pool-1x2", tileType: "safe_place", name: "Piscine (1x2)", colorClass: "bg-blue-600", size: { w: 1, h: 2 } },
-      { type: "swimming_pool-1x3", tileType: "safe_place", name: "Piscine (1x3)", colorClass: "bg-blue-600", size: { w: 1, h: 3 } },
-
-      { type: "empty-1x1", tileType: "safe_place", name: "Espace vide", colorClass: "bg-blue-600", size: { w: 1, h: 1 } },
-      { type: "empty-2x1", tileType: "safe_place", name: "Espace vide (2x1)", colorClass: "bg-blue-600", size: { w: 2, h: 1 } },
-      { type: "empty-1x2", tileType: "safe_place", name: "Espace vide (1x2)", colorClass: "bg-blue-600", size: { w: 1, h: 2 } },
-    ],
-    []
-  );
-
-  const makeEmptyGrid = () => {
-    const init: Record<string, Cell> = {};
-    for (let r = 0; r < rows; r++) for (let c = 0; c < cols; c++) init[`${r},${c}`] = null;
-    return init;
-  };
+  function confirmDiscard() {
+    return !isDirty || window.confirm("Le plateau en cours a des modifications non enregistrées. Continuer quand même ?");
+  }
 
-  const [grid, setGrid] = useState<Record<string, Cell>>(() => {
+  function openLibraryEntry(entry: LibraryEntry) {
+    if (entry.id !== currentBoardId && !confirmDiscard()) return;
     try {
-      const raw = localStorage.getItem(LS_KEY);
-      if (!raw) return makeEmptyGrid();
-      const parsed = JSON.parse(raw) as Record<string, Cell>;
-
-      const normalized = makeEmptyGrid();
-      for (const k of Object.keys(normalized)) normalized[k] = (k in parsed ? parsed[k] : null) ?? null;
-      return normalized;
-    } catch {
-      return makeEmptyGrid();
+      const loaded = documentToSnapshot(entry.document);
+      // nouveau plateau actif : pas d'annulation vers le précédent
+      history.reset(loaded);
+      setCurrentBoardId(entry.id);
+      setSavedDocJson(JSON.stringify(snapshotToDocument(loaded)));
+      setSelectedCell(null);
+      setIsLibraryOpen(false);
+    } catch (e) {
+      alert(`Ouverture impossible : ${e instanceof Error ? e.message : "plateau invalide."}`);
     }
-  });
-
-  useEffect(() => {
-    const t = window.setTimeout(() => {
-      try {
-        localStorage.setItem(LS_KEY, JSON.stringify(grid));
-      } catch {}
-    }, 150);
-    return () => window.clearTimeout(t);
-  }, [grid]);
-
-  const [selectedCell, setSelectedCell] = useState<string | null>(null);
-
-  const gridAreaRef = useRef<HTMLDivElement | null>(null);
-  const [cellSize, setCellSize] = useState<number>(64);
-
-  const [isPrintModalOpen, setIsPrintModalOpen] = useState(false);
-  const [boardName, setBoardName] = useState(() => {
-    try {
-      const raw = localStorage.getItem(LS_BOARDNAME_KEY);
-      const v = (raw ?? "").trim();
-      if (v.length) return v;
-    } catch {}
-    return "Quartier #" + Math.floor(Math.random() * 10000);
-  });
-
-  useEffect(() => {
-    const t = window.setTimeout(() => {
-      try {
-        localStorage.setItem(LS_BOARDNAME_KEY, boardName);
-      } catch {}
-    }, 150);
+  }
 
-    return () => window.clearTimeout(t);
-  }, [boardName]);
+  function newLibraryBoard() {
+    if (!confirmDiscard()) return;
+    history.reset({ rows, cols, grid: makeEmptyGrid(rows, cols), boardName: randomBoardName() });
+    setCurrentBoardId(null);
+    setSavedDocJson(null);
+    setSelectedCell(null);
+    setIsLibraryOpen(false);
+  }
+  // ---------------------------------------------------------------------
 
   useLayoutEffect(() => {
     const el = gridAreaRef.current;
@@ -978,12 +631,8 @@ export default function BoardBuilder() {
     return () => ro.disconnect();
   }, [cols, rows]);
 
-  function findPaletteItem(type: string) {
-    return palette.find((p) => p.type === type) ?? null;
-  }
-
   function getDropAnchorCell(targetCell: string, payload: DragPayload): string {
-    if (payload.kind !== "move") return targetCell;
+    if (payload.kind === "new") return targetCell;
     const { r, c } = getCellRC(targetCell);
     const nr = r - payload.grabOffset.dy;
     const nc = c - payload.grabOffset.dx;
@@ -994,14 +643,46 @@ export default function BoardBuilder() {
   // CLEAR BOARD (utilisé par Palette + Options)
   function clearBoard() {
     if (isGameMode) return; // en mode jeu, on bloque
-    setGrid(makeEmptyGrid());
-    setBoardName("Quartier #" + Math.floor(Math.random() * 10000));
+    // une seule étape d'historique pour la grille + le nom
+    history.update((s) => ({ rows: s.rows, cols: s.cols, grid: makeEmptyGrid(s.rows, s.cols), boardName: randomBoardName() }));
     setSelectedCell(null);
   }
   // ---------------------------------------------------------------------
 
+  // message pour les lecteurs d'écran, calculé sur la grille actuelle (mêmes règles que placeAtCell)
+  function describePlacement(payload: DragPayload, droppedCell: string) {
+    const target = getDropAnchorCell(droppedCell, payload);
+    const where = getCellLabel(target);
+
+    if (payload.kind === "new") {
+      const p = findPaletteItem(payload.paletteType);
+      if (!p) return "";
+      const size = p.size ?? { w: 1, h: 1 };
+      const exhausted = stock[p.type] !== undefined && (countPlacedByType(grid)[p.type] ?? 0) >= stock[p.type];
+      if (exhausted) return `${p.name} : plus de pièce disponible.`;
+      return canPlaceAt(target, { size }, grid, rows, cols) ? `${p.name} posée en ${where}.` : `Impossible de poser ${p.name} en ${where}.`;
+    }
+
+    if (payload.kind === "move") {
+      const from = Object.keys(grid).find((k) => {
+        const cell = grid[k];
+        return cell && isAnchor(cell) && cell.item.id === payload.placedId;
+      });
+      const it = from ? getAnchorItem(from, grid) : null;
+      if (!from || !it || from === target) return "";
+      return canPlaceAt(target, it, removeItems(grid, [it.id]), rows, cols) ? `${it.name} déplacée en ${where}.` : `Impossible de déplacer ${it.name} en ${where}.`;
+    }
+
+    const group = collectGroup(grid, payload.placedIds);
+    if (!group) return "";
+    return placeGroup(grid, group, target, rows, cols, { ignoreIds: payload.placedIds })
+      ? `${group.items.length} tuiles déplacées en ${where}.`
+      : `Impossible de déplacer les ${group.items.length} tuiles en ${where}.`;
+  }
+
   function placeAtCell(payload: DragPayload, droppedCell: string) {
     if (isGameMode) return; // en mode jeu, pas de placement
+    setAnnouncement(describePlacement(payload, droppedCell));
     setGrid((prev) => {
       const targetAnchor = getDropAnchorCell(droppedCell, payload);
 
@@ -1009,6 +690,10 @@ export default function BoardBuilder() {
         const p = findPaletteItem(payload.paletteType);
         if (!p) return prev;
 
+        // stock physique épuisé : on refuse la pose pour que le plateau reste constructible
+        const owned = stock[p.type];
+        if (owned !== undefined && (countPlacedByType(prev)[p.type] ?? 0) >= owned) return prev;
+
         const baseSize = p.size ?? { w: 1, h: 1 };
 
         const newItem: PlacedItem = normalizeOptions({
@@ -1054,10 +739,126 @@ export default function BoardBuilder() {
         return out;
       }
 
+      if (payload.kind === "group") {
+        // déplacement du groupe entier, ou rien s'il ne tient pas
+        const group = collectGroup(prev, payload.placedIds);
+        if (!group) return prev;
+        return placeGroup(prev, group, targetAnchor, rows, cols, { ignoreIds: payload.placedIds })?.grid ?? prev;
+      }
+
       return prev;
     });
   }
 
+  function removePlacedIds(placedIds: string[]) {
+    if (isGameMode) return;
+    setGrid((prev) => removeItems(prev, placedIds));
+    setAnnouncement(`${placedIds.length} tuile${placedIds.length > 1 ? "s" : ""} supprimée${placedIds.length > 1 ? "s" : ""}.`);
+    setSelectedIds([]);
+    setSelectedCell(null);
+  }
+
+  // ---------------------------------------------------------------------
+  // SÉLECTION MULTIPLE + COPIER / COUPER / COLLER
+
+  // tuiles concernées : la sélection multiple, sinon la tuile sélectionnée
+  function getSelectionIds() {
+    if (selectedIds.length) return selectedIds;
+    const it = selectedCell ? getAnchorItem(selectedCell, grid) : null;
+    return it ? [it.id] : [];
+  }
+
+  function selectCell(cellKey: string | null) {
+    setSelectedCell(cellKey);
+    setSelectedIds([]);
+  }
+
+  function toggleSelectionAt(cellKey: string) {
+    const it = getAnchorItem(cellKey, grid);
+    if (!it) return;
+    const current = getSelectionIds();
+    setSelectedIds(current.includes(it.id) ? current.filter((id) => id !== it.id) : [...current, it.id]);
+    setSelectedCell(getAnchorKeyFromCellKey(cellKey, grid));
+  }
+
+  function selectRect(fromKey: string, toKey: string) {
+    setSelectedIds(getIdsInRect(grid, fromKey, toKey));
+    setSelectedCell(null);
+  }
+
+  function copySelection(cut: boolean) {
+    const ids = getSelectionIds();
+    const group = collectGroup(grid, ids);
+    if (!group) return;
+    clipboardRef.current = group;
+    if (cut) removePlacedIds(ids);
+  }
+
+  function startPaste() {
+    if (!clipboardRef.current) return;
+    setPasteGroup(clipboardRef.current);
+    setPasteHover(null);
+    setPlacingType(null);
+  }
+
+  function pasteAt(originKey: string) {
+    if (isGameMode || !pasteGroup) return;
+
+    // copies : le stock physique doit suffire pour toutes les tuiles du groupe
+    const placed = countPlacedByType(grid);
+    const needed: Record<string, number> = {};
+    for (const { item } of pasteGroup.items) needed[item.type] = (needed[item.type] ?? 0) + 1;
+    const short = Object.keys(needed).filter((type) => stock[type] !== undefined && (placed[type] ?? 0) + needed[type] > stock[type]);
+    if (short.length) {
+      alert(`Stock insuffisant pour coller ce groupe : ${short.map((t) => findPaletteItem(t)?.name ?? t).join(", ")}.`);
+      return;
+    }
+
+    const result = placeGroup(grid, pasteGroup, originKey, rows, cols, { newIds: true });
+    if (!result) return; // chevauchement ou hors du plateau : l'aperçu est rouge
+
+    setGrid(result.grid);
+    setAnnouncement(`${result.ids.length} tuile${result.ids.length > 1 ? "s" : ""} collée${result.ids.length > 1 ? "s" : ""} en ${getCellLabel(originKey)}.`);
+    setSelectedIds(result.ids);
+    setSelectedCell(null);
+    setPasteGroup(null);
+    setPasteHover(null);
+  }
+
+  // ---------------------------------------------------------------------
+  // ROTATION / MIROIR : plateau entier ou sélection (une seule étape d'historique)
+  function applyTransform(op: BoardTransform, scope: "board" | "selection") {
+    if (isGameMode) return;
+
+    let result;
+    try {
+      result = scope === "board" ? transformBoard(history.present, op) : transformSelection(grid, getSelectionIds(), rows, cols, op);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Transformation impossible.");
+      return;
+    }
+    if (!result) {
+      alert("Transformation impossible : la sélection sortirait du plateau ou chevaucherait d’autres tuiles.");
+      return;
+    }
+
+    const { rows: nextRows, cols: nextCols, grid: nextGrid, warnings } = result;
+    history.update((s) => ({ ...s, rows: nextRows, cols: nextCols, grid: nextGrid }));
+    // les ancres ont bougé ; les ids (sélection multiple) restent valables
+    if (scope === "selection" && !selectedIds.length) setSelectedIds(getSelectionIds());
+    setSelectedCell(null);
+
+    if (warnings.length) alert(warnings.join("\n"));
+  }
+
+  const pastePreview = useMemo(() => {
+    if (!pasteGroup || !pasteHover) return null;
+    return {
+      cells: new Set(getGroupCells(pasteGroup, pasteHover)),
+      ok: !!placeGroup(grid, pasteGroup, pasteHover, rows, cols),
+    };
+  }, [pasteGroup, pasteHover, grid, rows, cols]);
+
   function removePlacedId(placedId: string) {
     if (isGameMode) return; // en mode jeu, pas de suppression
     setGrid((prev) => {
@@ -1103,6 +904,8 @@ export default function BoardBuilder() {
   function deleteSelected() {
     if (isGameMode) return; // en mode jeu, pas de suppression
     if (!selectedCell) return;
+    const deleted = getAnchorItem(selectedCell, grid);
+    if (deleted) setAnnouncement(`${deleted.name} supprimée.`);
     setGrid((prev) => {
       const anchorKey = getAnchorKeyFromCellKey(selectedCell, prev);
       if (!anchorKey) return prev;
@@ -1165,62 +968,314 @@ export default function BoardBuilder() {
   }
 
   // ---------------------------------------------------------------------
-  // MACROS CLAVIER : bloquées en mode jeu
+  // LIEN DE PARTAGE : /#b=... → chargement dans l'éditeur après confirmation
+  const { reset: resetBoard } = history;
+
   useEffect(() => {
-    document.body.style.overflow = "hidden";
+    const payload = readSharedHash(location.hash);
+    if (!payload) return;
+
+    // différé : l'éditeur s'affiche avant la boîte de confirmation
+    const t = window.setTimeout(() => {
+      // on retire le hash dans tous les cas pour ne pas redemander au prochain rendu
+      navigate({ pathname: location.pathname, search: location.search, hash: "" }, { replace: true });
 
-    function onKeyDown(ev: KeyboardEvent) {
-      if (isGameMode) return; // ✅ bloque toutes les macros en mode jeu
-      if (!selectedCell) return;
+      let shared: BoardSnapshot;
+      try {
+        shared = decodeBoard(payload);
+      } catch (e) {
+        alert(`Lien de partage invalide : ${e instanceof Error ? e.message : "données illisibles."}`);
+        return;
+      }
 
-      if (ev.key.toLowerCase() === "r") {
-        ev.preventDefault();
-        rotateSelectedTile();
+      if (hasItems && !window.confirm(`Ouvrir le plateau partagé « ${shared.boardName} » ? Le plateau en cours sera remplacé.`)) return;
+
+      // le plateau en cours est remplacé, pas modifié : on repart d'un historique vide
+      resetBoard(shared);
+      setCurrentBoardId(null);
+      setSavedDocJson(null);
+      setSelectedCell(null);
+    }, 0);
+
+    return () => window.clearTimeout(t);
+  }, [location.hash, location.pathname, location.search, navigate, hasItems, resetBoard]);
+
+  // ---------------------------------------------------------------------
+  // CRÉATION COMMUNAUTAIRE : /?communityId=... → copie dans la bibliothèque (remix)
+  const communityId = new URLSearchParams(location.search).get("communityId");
+  const [pendingRemix, setPendingRemix] = useState<CommunityCreation | null>(null);
+
+  useEffect(() => {
+    if (!communityId) return;
+    const ctrl = new AbortController();
+
+    (async () => {
+      try {
+        const creation = await getCreation(communityId, ctrl.signal);
+        if (!creation) alert("Création introuvable : elle a peut-être été supprimée.");
+        else setPendingRemix(creation);
+      } catch (e) {
+        if (ctrl.signal.aborted) return;
+        alert(`Impossible de charger la création : ${e instanceof Error ? e.message : "erreur inconnue."}`);
       }
+
+      // le paramètre a été traité : on le retire pour ne pas recharger la création au prochain rendu
+      const params = new URLSearchParams(location.search);
+      params.delete("communityId");
+      const search = params.toString();
+      navigate({ pathname: location.pathname, search: search ? `?${search}` : "", hash: location.hash }, { replace: true });
+    })();
+
+    return () => ctrl.abort();
+  }, [communityId, location.pathname, location.search, location.hash, navigate]);
+
+  async function openCommunityCreation(creation: CommunityCreation, saveCurrentFirst: boolean) {
+    const loaded: BoardSnapshot = { ...documentToSnapshot(creation.board), remixOf: creation.id };
+    if (saveCurrentFirst) await saveToLibrary();
+
+    // remix ouvert comme nouveau plateau : pas d'annulation vers le précédent
+    history.reset(loaded);
+    setSelectedCell(null);
+
+    const doc = snapshotToDocument(loaded);
+    try {
+      const entry = await putBoard(createEntry(doc, creation.thumbnail ?? (await renderBoardThumbnail(loaded).catch(() => null))));
+      setCurrentBoardId(entry.id);
+      setSavedDocJson(JSON.stringify(doc));
+    } catch {
+      // bibliothèque indisponible : le plateau reste ouvert, non enregistré
+      setCurrentBoardId(null);
+      setSavedDocJson(null);
     }
+  }
+
+  // ---------------------------------------------------------------------
+  // TACTILE : GLISSER AU DOIGT + POSE CASE PAR CASE
+
+  const { dragging: pointerDrag, beginPointerDrag } = usePointerDrag(dropFromPointer);
+
+  // mêmes effets que les onDrop de la grille et de la palette
+  function dropFromPointer(payload: DragPayload, target: PointerDropTarget) {
+    if (target.kind === "palette") {
+      if (payload.kind === "move") removePlacedId(payload.placedId);
+      if (payload.kind === "group") removePlacedIds(payload.placedIds);
+      return;
+    }
+
+    placeAtCell(payload, target.cellKey);
+    if (payload.kind === "group") return;
+    setSelectedCell(payload.kind === "move" ? getDropAnchorCell(target.cellKey, payload) : target.cellKey);
+  }
+
+  // taille d'une case à l'écran, zoom compris
+  function getScreenCellPx() {
+    return gridAreaRef.current?.querySelector("[data-cell]")?.getBoundingClientRect().width || cellSize;
+  }
+
+  function startPointerDragFromCell(e: React.PointerEvent, it: PlacedItem, cellKey: string, anchorKey: string) {
+    if (isGameMode) return;
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const local = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const { r: cr, c: cc } = getCellRC(cellKey);
+
+    beginPointerDrag(e, () => {
+      const px = getScreenCellPx();
+
+      // tuile d'une sélection multiple : on déplace tout le groupe
+      const group = selectedIds.length > 1 && selectedIds.includes(it.id) ? collectGroup(grid, selectedIds) : null;
+      const origin = group ? getGroupOrigin(grid, selectedIds) : null;
+      if (group && origin) {
+        const grabOffset = { dx: cc - origin.c, dy: cr - origin.r };
+        return {
+          payload: { kind: "group", placedIds: selectedIds, grabOffset },
+          makePreview: () => ({
+            el: makeGroupPreviewEl(group, px, getTileUrl, getRoadOptionOverlay),
+            ox: grabOffset.dx * px + local.x,
+            oy: grabOffset.dy * px + local.y,
+          }),
+        };
+      }
+
+      const { r: ar, c: ac } = getCellRC(anchorKey);
+      const grabOffset = { dx: cc - ac, dy: cr - ar };
+      return {
+        payload: { kind: "move", placedId: it.id, grabOffset },
+        makePreview: () => ({
+          el: makeDragPreviewEl(it, px, getTileUrl, getRoadOptionOverlay),
+          ox: grabOffset.dx * px + local.x,
+          oy: grabOffset.dy * px + local.y,
+        }),
+      };
+    });
+  }
+
+  function startPointerDragFromPalette(e: React.PointerEvent, p: PaletteItem) {
+    if (isGameMode) return;
+    beginPointerDrag(e, () => {
+      setSheet(null); // le panneau du bas se referme pour dégager la grille
+      const px = getScreenCellPx();
+      return {
+        payload: { kind: "new", paletteType: p.type },
+        makePreview: () => ({ el: makeDragPreviewEl(makePalettePreviewItem(p), px, getTileUrl, getRoadOptionOverlay), ox: px / 2, oy: px / 2 }),
+      };
+    });
+  }
+
+  function togglePlacing(paletteType: string) {
+    if (isGameMode) return;
+    setPlacingType((curr) => (curr === paletteType ? null : paletteType));
+    setPasteGroup(null);
+    setSheet(null);
+  }
 
-    window.addEventListener("keydown", onKeyDown);
-    return () => {
-      document.body.style.overflow = "";
-      window.removeEventListener("keydown", onKeyDown);
-    };
-  }, [selectedCell, isGameMode]);
   // ---------------------------------------------------------------------
+  // NAVIGATION AU CLAVIER
+
+  // case voisine de la sélection (depuis le bord de la tuile sélectionnée)
+  function getNeighborCell(dir: { dr: number; dc: number }) {
+    if (!selectedCell) return "0,0";
+    const anchorKey = getAnchorKeyFromCellKey(selectedCell, grid) ?? selectedCell;
+    const it = getAnchorItem(anchorKey, grid);
+    const { r, c } = getCellRC(anchorKey);
+
+    const nr = dir.dr < 0 ? r - 1 : dir.dr > 0 ? r + (it?.size.h ?? 1) : r;
+    const nc = dir.dc < 0 ? c - 1 : dir.dc > 0 ? c + (it?.size.w ?? 1) : c;
+    if (nr < 0 || nc < 0 || nr >= rows || nc >= cols) return null;
+    return `${nr},${nc}`;
+  }
+
+  function moveCursor(dir: { dr: number; dc: number }) {
+    const next = getNeighborCell(dir);
+    if (next) selectCell(getAnchorKeyFromCellKey(next, grid) ?? next);
+  }
+
+  // Maj + flèche : déplace la sélection multiple, sinon la tuile sélectionnée
+  function moveSelectionBy(dir: { dr: number; dc: number }) {
+    if (isGameMode) return;
+    if (selectedIds.length > 1) {
+      const origin = getGroupOrigin(grid, selectedIds);
+      if (!origin) return;
+      placeAtCell({ kind: "group", placedIds: selectedIds, grabOffset: { dx: 0, dy: 0 } }, `${origin.r + dir.dr},${origin.c + dir.dc}`);
+      return;
+    }
 
-  function computeCellZIndex(cellKey: string): number {
-    const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
+    const anchorKey = selectedCell ? getAnchorKeyFromCellKey(selectedCell, grid) : null;
     const it = anchorKey ? getAnchorItem(anchorKey, grid) : null;
+    if (!anchorKey || !it) return;
+
+    const { r, c } = getCellRC(anchorKey);
+    const target = `${r + dir.dr},${c + dir.dc}`;
+    placeAtCell({ kind: "move", placedId: it.id, grabOffset: { dx: 0, dy: 0 } }, target);
+    if (canPlaceAt(target, it, removeItems(grid, [it.id]), rows, cols)) setSelectedCell(target);
+  }
+
+  function pickTile(paletteType: string) {
+    if (!selectedCell) return;
+    placeAtCell({ kind: "new", paletteType }, selectedCell);
+    setIsPickerOpen(false);
+  }
 
-    const selfRects = getRectsForCell(cellKey, grid);
-    const hasAny = selfRects.top || selfRects.right || selfRects.bottom || selfRects.left;
-    if (!hasAny) return 1;
+  // ---------------------------------------------------------------------
+  // MACROS CLAVIER : bloquées en mode jeu
+  function onKeyDown(ev: KeyboardEvent) {
+    if (isGameMode) return; // ✅ bloque toutes les macros en mode jeu
+
+    // Ctrl+Z / Ctrl+Shift+Z (ou Ctrl+Y), sauf dans un champ texte qui gère son propre undo
+    const target = ev.target as HTMLElement | null;
+    const isTyping = !!target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable);
+    if ((ev.ctrlKey || ev.metaKey) && !isTyping) {
+      const key = ev.key.toLowerCase();
+      if (key === "z" && !ev.shiftKey) {
+        ev.preventDefault();
+        undo();
+        return;
+      }
+      if ((key === "z" && ev.shiftKey) || key === "y") {
+        ev.preventDefault();
+        redo();
+        return;
+      }
+      // sans tuile sélectionnée, le navigateur copie le texte de la page comme d'habitude
+      if ((key === "c" || key === "x") && getSelectionIds().length) {
+        ev.preventDefault();
+        copySelection(key === "x");
+        return;
+      }
+      if (key === "v") {
+        ev.preventDefault();
+        startPaste();
+        return;
+      }
+    }
 
-    if (it?.tileType === "school") return 1000;
+    if (ev.key === "Escape" && !isTyping) {
+      setPasteGroup(null);
+      setPlacingType(null);
+      setSelectedIds([]);
+      return;
+    }
 
-    const { r, c } = getCellRC(cellKey);
+    // flèches, Suppr, Entrée : seulement depuis la grille (ou sans focus), jamais dans une fenêtre ouverte
+    const inGrid = !!target && (target === document.body || !!gridAreaRef.current?.contains(target));
+    if (isTyping || !inGrid || target?.closest('[role="dialog"]')) return;
 
-    const topKey = r > 0 ? `${r - 1},${c}` : null;
-    const bottomKey = r < rows - 1 ? `${r + 1},${c}` : null;
-    const leftKey = c > 0 ? `${r},${c - 1}` : null;
-    const rightKey = c < cols - 1 ? `${r},${c + 1}` : null;
+    const dir = ARROW_DELTAS[ev.key];
+    if (dir) {
+      ev.preventDefault();
+      if (ev.shiftKey) moveSelectionBy(dir);
+      else moveCursor(dir);
+      return;
+    }
 
-    const topRects = topKey ? getRectsForCell(topKey, grid) : null;
-    const bottomRects = bottomKey ? getRectsForCell(bottomKey, grid) : null;
-    const leftRects = leftKey ? getRectsForCell(leftKey, grid) : null;
-    const rightRects = rightKey ? getRectsForCell(rightKey, grid) : null;
+    if (ev.key === "Delete" || ev.key === "Backspace") {
+      ev.preventDefault();
+      if (selectedIds.length) {
+        removePlacedIds(selectedIds);
+      } else {
+        const at = selectedCell ? getAnchorKeyFromCellKey(selectedCell, grid) : null;
+        deleteSelected();
+        if (at) setSelectedCell(at); // le curseur reste sur la case libérée
+      }
+      return;
+    }
 
-    let hasConflict = false;
+    if (ev.key === "Enter" && selectedCell && !getAnchorItem(selectedCell, grid)) {
+      ev.preventDefault();
+      setIsPickerOpen(true);
+      return;
+    }
 
-    if (selfRects.top && bottomRects?.bottom) hasConflict = true;
-    if (selfRects.bottom && topRects?.top) hasConflict = true;
-    if (selfRects.left && rightRects?.right) hasConflict = true;
-    if (selfRects.right && leftRects?.left) hasConflict = true;
+    if (!selectedCell) return;
 
-    return hasConflict ? 20 : 5;
+    if (ev.key.toLowerCase() === "r") {
+      ev.preventDefault();
+      rotateSelectedTile();
+    }
   }
 
+  // l'écouteur reste le même, le gestionnaire est relu à chaque rendu (plateau, stock, mode jeu à jour)
+  const onKeyDownRef = useRef(onKeyDown);
+  useEffect(() => {
+    onKeyDownRef.current = onKeyDown;
+  });
+
+  useEffect(() => {
+    document.body.style.overflow = "hidden";
+
+    const listener = (ev: KeyboardEvent) => onKeyDownRef.current(ev);
+    window.addEventListener("keydown", listener);
+    return () => {
+      document.body.style.overflow = "";
+      window.removeEventListener("keydown", listener);
+    };
+  }, []);
+  // ---------------------------------------------------------------------
+
   const selectedItem = selectedCell ? getAnchorItem(selectedCell, grid) : null;
 
+  // tuile armée pour la pose case par case, tant qu'il en reste en stock
+  const placingItem = placingType && remainingStock[placingType] !== 0 && !isGameMode ? findPaletteItem(placingType) : null;
+
   function setTopAt(index: number, v: boolean) {
     if (isGameMode) return;
     if (!selectedItem) return;
@@ -1270,93 +1325,117 @@ export default function BoardBuilder() {
     }
   }
 
-  function renderRectsForCell(cellKey: string, it: PlacedItem) {
-    const rects = getRectsForCell(cellKey, grid);
+  function renderTileLayer({ it, cellKey }: { it: PlacedItem; tileBg: string | null; cellKey: string }) {
+    return <TileLayer it={it} cellKey={cellKey} grid={grid} />;
+  }
 
-    if (it.tileType === "school") {
-      return (
-        <>
-          {rects.top ? <EdgeRect side="top" color="blue" /> : null}
-          {rects.right ? <EdgeRect side="right" color="blue" /> : null}
-          {rects.bottom ? <EdgeRect side="bottom" color="blue" /> : null}
-          {rects.left ? <EdgeRect side="left" color="blue" /> : null}
-        </>
-      );
-    }
+  const importInputRef = useRef<HTMLInputElement | null>(null);
 
-    if (it.tileType === "safe_place") {
-      return (
-        <>
-          {rects.top ? <EdgeRect side="top" color="orange" /> : null}
-          {rects.right ? <EdgeRect side="right" color="orange" /> : null}
-          {rects.bottom ? <EdgeRect side="bottom" color="orange" /> : null}
-          {rects.left ? <EdgeRect side="left" color="orange" /> : null}
-        </>
-      );
-    }
+  function onExportJson() {
+    const doc = snapshotToDocument(history.present);
+    const blob = new Blob([JSON.stringify(doc, null, 2)], { type: "application/json" });
+    downloadBlob(blob, `${safeFileName(boardName)}.json`);
+  }
 
-    return null;
+  async function onImportJson(file: File) {
+    if (isGameMode) return;
+    try {
+      const imported = parseBoardFile(await file.text());
+      // remplacement annulable (Ctrl+Z) : pas besoin de confirmation
+      history.update(() => ({ ...imported, boardName: imported.boardName || randomBoardName() }));
+      setSelectedCell(null);
+    } catch (e) {
+      alert(`Import impossible : ${e instanceof Error ? e.message : "fichier invalide."}`);
+    }
   }
 
-  function renderTileLayer({ it, tileBg, cellKey }: { it: PlacedItem; tileBg: string | null; cellKey: string }) {
-    const anchorKey = getAnchorKeyFromCellKey(cellKey, grid);
-    if (!anchorKey) return null;
-
-    const rotation = getTileRotation(it);
-    const roadOverlay = it.tileType === "road" ? getRoadOptionOverlay(it) : null;
-    const slice = getSliceStyle(it, cellKey, anchorKey);
-
-    return (
-      <div className="relative h-full w-full">
-        <div
-          className="absolute inset-0"
-          style={{
-            transform: rotation ? `rotate(${rotation}deg)` : undefined,
-            transformOrigin: "50% 50%",
-          }}
-        >
-          <div
-            className={["absolute inset-0", it.colorClass].join(" ")}
-            style={{
-              backgroundImage: tileBg ? `url(${tileBg})` : undefined,
-              backgroundRepeat: "no-repeat",
-              ...slice,
-            }}
-          >
-            {renderRectsForCell(cellKey, it)}
-          </div>
-        </div>
+  async function copyShareLink() {
+    const url = buildShareUrl(history.present);
+    try {
+      await copyText(url);
+      alert("Lien du plateau copié.");
+    } catch {
+      // presse-papiers refusé (permission, contexte non sécurisé) : le lien reste copiable à la main
+      window.prompt("Copie impossible. Copie ce lien à la main :", url);
+    }
+  }
 
-        {roadOverlay ? (
-          <div
-            className="pointer-events-none absolute inset-0 z-40"
-            style={{
-              backgroundImage: `url(${roadOverlay})`,
-              backgroundSize: "contain",
-              backgroundPosition: "center",
-              backgroundRepeat: "no-repeat",
-            }}
-          />
-        ) : null}
-      </div>
-    );
+  async function publishToCommunity(title: string) {
+    const board = history.present;
+    const created = await publishCreation({
+      title,
+      boardName: board.boardName,
+      board: snapshotToDocument(board),
+      thumbnail: await renderBoardThumbnail(board).catch(() => null),
+    });
+    return `${window.location.origin}/community/${encodeURIComponent(created.id)}`;
   }
 
-  function onShare() {
-    console.log("TODO: share");
+  async function copyBoardImage() {
+    const board = history.present;
+    // la promesse est passée telle quelle : le presse-papiers doit être sollicité pendant le clic
+    const png = renderBoardPng(board, DEFAULT_IMAGE_OPTIONS);
+
+    try {
+      if (await copyImage(png)) {
+        alert("Image du plateau copiée.");
+        return;
+      }
+      downloadBlob(await png, `${safeFileName(board.boardName)}.png`);
+      alert("Ce navigateur ne permet pas de copier une image : elle a été téléchargée.");
+    } catch (e) {
+      alert(`Copie impossible : ${e instanceof Error ? e.message : e}`);
+    }
   }
 
   async function onDownloadPdf() {
-    await generateBoardPdf({
-      rows,
-      cols,
-      grid,
-      boardName: boardName || "DTTS - plateau",
-      getTileUrl,
-      getRoadOverlay: getRoadOptionOverlay,
-    });
+    try {
+      if (pdfSettings.mode === "tiles") await generateTileSheetPdf(history.present, pdfSettings, stock);
+      else await generateBoardPdf(history.present, pdfSettings, stock);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Export PDF impossible.");
+    }
   }
 
+  // rendus dans les colonnes latérales, ou dans les panneaux du bas sur téléphone
+  const palettePanel = (
+    <Palette
+      palette={PALETTE}
+      getTileUrl={getTileUrl}
+      onRemovePlacedId={removePlacedId}
+      onRemovePlacedIds={removePlacedIds}
+      parsePayload={parseDragPayload}
+      onClearTiles={clearBoard}
+      remaining={remainingStock}
+      stock={stock}
+      onStockChange={setStock}
+      onEditStock={() => setIsInventoryOpen(true)}
+      nativeDrag={!isCoarsePointer}
+      onTilePointerDown={startPointerDragFromPalette}
+      placingType={placingItem?.type ?? null}
+      onTogglePlacing={togglePlacing}
+      compact={isCompact}
+    />
+  );
+
+  const optionsPanel = (
+    <Options
+      selectedCell={selectedCell}
+      selectedItem={selectedItem}
+      deleteSelected={deleteSelected}
+      rotateSelectedTile={rotateSelectedTile}
+      setSelectedOption={setSelectedOption}
+      setTopAt={setTopAt}
+      setBottomAt={setBottomAt}
+      setLeftAt={setLeftAt}
+      setRightAt={setRightAt}
+      clearBoard={clearBoard}
+      getTileRotation={getTileRotation}
+      hasSelection={getSelectionIds().length > 0}
+      onTransform={applyTransform}
+    />
+  );
+
   return (
     <div className="h-screen w-screen bg-neutral-950 text-neutral-100">
       <style>{`
@@ -1374,23 +1453,126 @@ export default function BoardBuilder() {
         }
       `}</style>
 
-      <div className="flex h-full w-full flex-col p-4 bb-no-print">
-        <header className="mb-4 flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+      <div className={["flex h-full w-full flex-col bb-no-print", isCompact ? "p-2" : "p-4"].join(" ")}>
+        <header className={["flex flex-col gap-3 md:flex-row md:items-end md:justify-between", isCompact ? "mb-2" : "mb-4"].join(" ")}>
           <div>
-            <h1 className="text-2xl font-semibold">Éditeur de plateau de jeu pour Don't Talk To Strangers</h1>
-            <p className="text-sm text-neutral-300">Déplace des tuiles vers la grille pour créer ton plateau de jeu personnalisé.</p>
+            <h1 className={isCompact ? "text-lg font-semibold" : "text-2xl font-semibold"}>Éditeur de plateau de jeu pour Don't Talk To Strangers</h1>
+            {!isCompact && <p className="text-sm text-neutral-300">Déplace des tuiles vers la grille pour créer ton plateau de jeu personnalisé.</p>}
           </div>
 
-          <div className="flex flex-wrap gap-2 items-center">
+          {/* téléphone : une seule ligne de boutons, qui défile */}
+          <div className={["flex gap-2 items-center", isCompact ? "flex-nowrap overflow-x-auto whitespace-nowrap pb-1" : "flex-wrap"].join(" ")}>
             {!isGameMode ? (
               <>
-                <button className="rounded-xl bg-neutral-900 px-3 py-2 text-sm" onClick={() => navigate("/community")} disabled={true}>
-                  Créations de la communauté (prochainement)
+                <button
+                  className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700 disabled:opacity-40 disabled:hover:bg-neutral-800"
+                  onClick={undo}
+                  disabled={!canUndo}
+                  title="Annuler (Ctrl+Z)"
+                >
+                  Annuler
+                </button>
+
+                <button
+                  className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700 disabled:opacity-40 disabled:hover:bg-neutral-800"
+                  onClick={redo}
+                  disabled={!canRedo}
+                  title="Rétablir (Ctrl+Shift+Z)"
+                >
+                  Rétablir
+                </button>
+
+                <button
+                  className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700"
+                  onClick={() => setIsSizeModalOpen(true)}
+                  title="Changer la taille du plateau"
+                >
+                  Taille : {rows}×{cols}
+                </button>
+
+                <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={() => setIsLibraryOpen(true)}>
+                  Mes plateaux
+                </button>
+
+                <button
+                  className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700"
+                  onClick={() => saveToLibrary().catch((e) => alert(`Enregistrement impossible : ${e instanceof Error ? e.message : e}`))}
+                  title={isDirty ? "Modifications non enregistrées" : "Plateau enregistré"}
+                >
+                  Enregistrer{isDirty ? " •" : ""}
+                </button>
+
+                <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={() => void copyShareLink()}>
+                  Copier le lien
+                </button>
+
+                <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={onExportJson}>
+                  Exporter .json
+                </button>
+
+                <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={() => importInputRef.current?.click()}>
+                  Importer .json
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) void onImportJson(file);
+                  }}
+                />
+
+                <button
+                  className={[
+                    "rounded-xl px-3 py-2 text-sm",
+                    stockShortages.length ? "bg-amber-500/20 text-amber-200 hover:bg-amber-500/30" : "bg-neutral-800 hover:bg-neutral-700",
+                  ].join(" ")}
+                  onClick={() => setIsInventoryOpen(true)}
+                  title={stockShortages.length ? `Pièces manquantes : ${stockShortages.map((l) => l.name).join(", ")}` : undefined}
+                >
+                  Inventaire{stockShortages.length ? ` ⚠ ${stockShortages.length}` : ""}
                 </button>
 
-                <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={() => onDownloadPdf()}>
+                <RulesBadge
+                  validation={validation}
+                  onSelectIssue={(issue) => setSelectedCell(getAnchorKeyFromCellKey(issue.cells[0], grid) ?? issue.cells[0])}
+                />
+
+                <button
+                  className={["rounded-xl px-3 py-2 text-sm", isAnalysisOpen ? "bg-neutral-200 text-neutral-900 hover:bg-white" : "bg-neutral-800 hover:bg-neutral-700"].join(" ")}
+                  onClick={() => setIsAnalysisOpen((v) => !v)}
+                  aria-pressed={isAnalysisOpen}
+                  title="Distances entre les écoles et les zones sûres"
+                >
+                  Trajets
+                </button>
+
+                <button className="rounded-xl bg-neutral-900 px-3 py-2 text-sm hover:bg-neutral-800" onClick={() => navigate("/community")}>
+                  Créations de la communauté
+                </button>
+
+                <button
+                  className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700"
+                  onClick={() => navigate("/view")}
+                  title="Afficher le plateau en lecture seule, pour un téléphone posé sur la table"
+                >
+                  Visionneuse
+                </button>
+
+                <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={() => setIsPrintModalOpen(true)}>
                   Exporter (PDF)
                 </button>
+
+                <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={() => void copyBoardImage()}>
+                  Copier l'image
+                </button>
+
+                <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={() => setIsImageModalOpen(true)}>
+                  Exporter (image)
+                </button>
               </>
             ) : (
               <span>Jouez directement sur votre écran !</span>
@@ -1403,18 +1585,18 @@ export default function BoardBuilder() {
         </header>
 
         <div className="min-h-0 flex flex-1 gap-4">
-          <aside
-            className={[
-              "min-h-0 overflow-hidden transition-all duration-300 ease-in-out",
-              isGameMode ? "w-0 opacity-0 -translate-x-6 pointer-events-none" : "w-[350px] opacity-100 translate-x-0",
-            ].join(" ")}
-          >
-            <div className="h-full">
-              <Palette palette={palette} getTileUrl={getTileUrl} onRemovePlacedId={removePlacedId} parsePayload={parseDragPayload} onClearTiles={clearBoard} />
-            </div>
-          </aside>
-
-          <main className="min-h-0 flex-1 transition-all duration-300 ease-in-out bb-print-target">
+          {!isCompact && (
+            <aside
+              className={[
+                "min-h-0 overflow-hidden transition-all duration-300 ease-in-out",
+                isGameMode ? "w-0 opacity-0 -translate-x-6 pointer-events-none" : "w-[350px] opacity-100 translate-x-0",
+              ].join(" ")}
+            >
+              <div className="h-full">{palettePanel}</div>
+            </aside>
+          )}
+
+          <main className="relative min-h-0 flex-1 transition-all duration-300 ease-in-out bb-print-target">
             <Grid
               rows={rows}
               cols={cols}
@@ -1422,9 +1604,9 @@ export default function BoardBuilder() {
               boardName={boardName}
               onBoardNameChange={setBoardName}
               selectedCell={selectedCell}
-              setSelectedCell={setSelectedCell}
+              setSelectedCell={selectCell}
               gridAreaRef={gridAreaRef}
-              computeCellZIndex={computeCellZIndex}
+              computeCellZIndex={(cellKey) => computeCellZIndex(cellKey, grid, rows, cols)}
               getTileUrl={getTileUrl}
               getAnchorKeyFromCellKey={(cellKey) => getAnchorKeyFromCellKey(cellKey, grid)}
               getAnchorItem={(cellKey) => getAnchorItem(cellKey, grid)}
@@ -1433,37 +1615,159 @@ export default function BoardBuilder() {
               getDropAnchorCell={getDropAnchorCell}
               startDragMoveFromCell={(e, it, cellKey, anchorKey) => {
                 if (isGameMode) return; // ✅ en mode jeu, pas de drag move
-                startDragMoveFromCell(e, it, cellKey, anchorKey, cellSize, getTileUrl, getRoadOptionOverlay);
+
+                // tuile d'une sélection multiple : on déplace tout le groupe
+                const group = selectedIds.length > 1 && selectedIds.includes(it.id) ? collectGroup(grid, selectedIds) : null;
+                const origin = group ? getGroupOrigin(grid, selectedIds) : null;
+                if (group && origin) startDragGroupFromCell(e, group, selectedIds, origin, cellKey, cellSize, getTileUrl, getRoadOptionOverlay);
+                else startDragMoveFromCell(e, it, cellKey, anchorKey, cellSize, getTileUrl, getRoadOptionOverlay);
               }}
               renderTileLayer={renderTileLayer}
+              issueCells={isGameMode ? undefined : validation.cells}
+              heatmap={reachability ? { values: reachability.distances, max: reachability.maxDistance } : null}
+              selectedIds={selectedIds}
+              onToggleSelect={(cellKey) => !isGameMode && toggleSelectionAt(cellKey)}
+              onSelectRect={(from, to) => !isGameMode && selectRect(from, to)}
+              isPasting={!!pasteGroup && !isGameMode}
+              pastePreview={pastePreview}
+              onPasteHover={setPasteHover}
+              onPasteAt={pasteAt}
+              nativeDrag={!isCoarsePointer}
+              onTilePointerDown={startPointerDragFromCell}
+              isPointerDragging={!!pointerDrag}
+              isPlacing={!!placingItem}
+              onPlaceAt={(cellKey) => {
+                if (!placingItem) return;
+                placeAtCell({ kind: "new", paletteType: placingItem.type }, cellKey);
+                setSelectedCell(cellKey);
+              }}
             />
+
+            {pasteGroup && !isGameMode ? (
+              <div className="pointer-events-none absolute left-1/2 top-6 z-[60] -translate-x-1/2 rounded-xl bg-neutral-900/95 px-4 py-2 text-sm text-neutral-100 shadow-xl">
+                Cliquez sur une case pour coller {pasteGroup.items.length} tuile{pasteGroup.items.length > 1 ? "s" : ""} (coin haut-gauche) · Échap pour annuler
+              </div>
+            ) : null}
+
+            {placingItem ? (
+              <div className="absolute left-1/2 top-6 z-[60] flex -translate-x-1/2 items-center gap-3 rounded-xl bg-neutral-900/95 px-4 py-2 text-sm text-neutral-100 shadow-xl">
+                <span>Touchez les cases vides où poser : {placingItem.name}</span>
+                <button className="rounded-lg bg-neutral-800 px-2 py-1 text-xs hover:bg-neutral-700" onClick={() => setPlacingType(null)}>
+                  Terminer
+                </button>
+              </div>
+            ) : null}
+
+            {reachability ? (
+              <ReachabilityPanel analysis={reachability} grid={grid} onSelect={setSelectedCell} onClose={() => setIsAnalysisOpen(false)} />
+            ) : null}
           </main>
 
-          <aside
-            className={[
-              "min-h-0 overflow-hidden transition-all duration-300 ease-in-out",
-              isGameMode ? "w-0 opacity-0 translate-x-6 pointer-events-none" : "w-[340px] opacity-100 translate-x-0",
-            ].join(" ")}
-          >
-            <div className="h-full">
-              <Options
-                selectedCell={selectedCell}
-                selectedItem={selectedItem}
-                deleteSelected={deleteSelected}
-                rotateSelectedTile={rotateSelectedTile}
-                setSelectedOption={setSelectedOption}
-                setTopAt={setTopAt}
-                setBottomAt={setBottomAt}
-                setLeftAt={setLeftAt}
-                setRightAt={setRightAt}
-                clearBoard={clearBoard}
-                getTileRotation={getTileRotation}
-              />
-            </div>
-          </aside>
+          {!isCompact && (
+            <aside
+              className={[
+                "min-h-0 overflow-hidden transition-all duration-300 ease-in-out",
+                isGameMode ? "w-0 opacity-0 translate-x-6 pointer-events-none" : "w-[340px] opacity-100 translate-x-0",
+              ].join(" ")}
+            >
+              <div className="h-full">{optionsPanel}</div>
+            </aside>
+          )}
         </div>
+
+        {isCompact && !isGameMode ? (
+          <nav className="mt-2 grid grid-cols-2 gap-2">
+            <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={() => setSheet("palette")}>
+              Tuiles
+            </button>
+            <button className="truncate rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={() => setSheet("options")}>
+              {selectedItem ? `Options : ${selectedItem.name}` : "Options"}
+            </button>
+          </nav>
+        ) : null}
+      </div>
+
+      {isCompact ? (
+        <>
+          <BottomSheet isOpen={sheet === "palette" && !isGameMode} onClose={() => setSheet(null)} title="Tuiles">
+            {palettePanel}
+          </BottomSheet>
+          <BottomSheet isOpen={sheet === "options" && !isGameMode} onClose={() => setSheet(null)} title="Options">
+            {optionsPanel}
+          </BottomSheet>
+        </>
+      ) : null}
+
+      {isLibraryOpen ? (
+        <LibraryModal
+          isOpen={isLibraryOpen}
+          onClose={() => setIsLibraryOpen(false)}
+          currentId={currentBoardId}
+          currentName={boardName}
+          isDirty={isDirty}
+          onSaveAs={(name) => saveToLibrary(name)}
+          onOpen={openLibraryEntry}
+          onNew={newLibraryBoard}
+          onCurrentRenamed={(entry) => {
+            setBoardName(entry.name);
+            if (!isDirty) setSavedDocJson(JSON.stringify(entry.document));
+          }}
+          onCurrentDeleted={() => {
+            setCurrentBoardId(null);
+            setSavedDocJson(null);
+          }}
+        />
+      ) : null}
+
+      {isSizeModalOpen ? (
+        <BoardSizeModal
+          isOpen={isSizeModalOpen}
+          onClose={() => setIsSizeModalOpen(false)}
+          size={{ rows, cols }}
+          onApply={resizeBoard}
+          getDroppedItems={(size) => resizeGrid(grid, size.rows, size.cols).dropped}
+        />
+      ) : null}
+
+      {pendingRemix ? (
+        <RemixModal
+          isOpen={!!pendingRemix}
+          onClose={() => setPendingRemix(null)}
+          creation={pendingRemix}
+          isDirty={isDirty}
+          onOpen={(saveCurrentFirst) => openCommunityCreation(pendingRemix, saveCurrentFirst)}
+        />
+      ) : null}
+
+      {isInventoryOpen ? (
+        <InventoryModal
+          isOpen={isInventoryOpen}
+          onClose={() => setIsInventoryOpen(false)}
+          grid={grid}
+          getTileUrl={getTileUrl}
+          stock={stock}
+          onStockChange={setStock}
+        />
+      ) : null}
+
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
       </div>
 
+      {isPickerOpen && selectedCell ? (
+        <TilePickerModal
+          isOpen={isPickerOpen}
+          onClose={() => setIsPickerOpen(false)}
+          palette={PALETTE}
+          getTileUrl={getTileUrl}
+          remaining={remainingStock}
+          cellLabel={getCellLabel(selectedCell)}
+          onPick={pickTile}
+        />
+      ) : null}
+
+      {isImageModalOpen ? <ImageExportModal isOpen={isImageModalOpen} onClose={() => setIsImageModalOpen(false)} board={history.present} /> : null}
+
       {isPrintModalOpen ? (
         <PrintModal
           isOpen={isPrintModalOpen}
@@ -1473,10 +1777,11 @@ export default function BoardBuilder() {
             await onDownloadPdf();
             setIsPrintModalOpen(false);
           }}
-          onShare={() => {
-            onShare();
-            setIsPrintModalOpen(false);
-          }}
+          onShare={publishToCommunity}
+          shareBlockers={getPublishBlockers(history.present)}
+          board={history.present}
+          pdfSettings={pdfSettings}
+          onPdfSettingsChange={setPdfSettings}
         />
       ) : null}
     </div>
@@ -0,0 +1,224 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+
+import BoardView from "../components/BoardView";
+import type { BoardSnapshot, PlacedItem } from "./BoardBuilder";
+import { LS_BOARD_KEY, documentToSnapshot } from "../utils/boardFormat";
+import { getCreation } from "../utils/communityApi";
+import { getAnchorKeyFromCellKey, getCellLabel, getCellsForFootprint, getTileRotation } from "../utils/grid";
+import { usePanZoom } from "../utils/panZoom";
+import { decodeBoard, readSharedHash } from "../utils/shareLink";
+
+type LoadedBoard = { board: BoardSnapshot | null; error: string | null; source: string };
+
+const ROAD_OVERLAY_LABELS = { alien: "Alien", school_bus: "Bus scolaire", city_bus: "Bus municipal" } as const;
+
+// plateau de cet appareil (celui de l'éditeur) ou lien partagé /view#b=...
+function loadLocalBoard(hash: string): LoadedBoard {
+  const shared = readSharedHash(hash);
+  try {
+    if (shared) return { board: decodeBoard(shared), error: null, source: "Lien partagé" };
+
+    const raw = localStorage.getItem(LS_BOARD_KEY);
+    if (!raw) return { board: null, error: "Aucun plateau enregistré sur cet appareil.", source: "Plateau de cet appareil" };
+    return { board: documentToSnapshot(JSON.parse(raw)), error: null, source: "Plateau de cet appareil" };
+  } catch (e) {
+    return { board: null, error: e instanceof Error ? e.message : "Plateau illisible.", source: shared ? "Lien partagé" : "Plateau de cet appareil" };
+  }
+}
+
+// détails affichés quand on touche une tuile
+function describeTile(it: PlacedItem) {
+  const lines: string[] = [];
+  if (it.size.w > 1 || it.size.h > 1) lines.push(`Taille : ${it.size.w}×${it.size.h}`);
+  if (getTileRotation(it)) lines.push(`Pivotée de ${getTileRotation(it)}°`);
+
+  if (it.tileType === "road") {
+    const overlay = (Object.keys(ROAD_OVERLAY_LABELS) as Array<keyof typeof ROAD_OVERLAY_LABELS>).find((k) => it.options[k]);
+    lines.push(overlay ? `Sur la route : ${ROAD_OVERLAY_LABELS[overlay]}` : "Route sans véhicule");
+  } else {
+    const sides = [
+      ["en haut", it.options.topSegments],
+      ["en bas", it.options.bottomSegments],
+      ["à gauche", it.options.leftSegments],
+      ["à droite", it.options.rightSegments],
+    ] as const;
+    const open = sides.map(([label, segs]) => ({ label, n: (segs ?? []).filter(Boolean).length })).filter((s) => s.n > 0);
+    const total = open.reduce((sum, s) => sum + s.n, 0);
+    lines.push(total ? `${total} entrée${total > 1 ? "s" : ""} : ${open.map((s) => s.label).join(", ")}` : "Aucune entrée");
+  }
+
+  return lines;
+}
+
+/**
+ * Visionneuse en lecture seule, pensée pour le téléphone : plateau local, lien partagé (/view#b=...)
+ * ou création communautaire (/view/:id), avec zoom, détails au toucher et affichage plein écran.
+ */
+export default function BoardViewer() {
+  const { id } = useParams<{ id: string }>();
+  const communityId = id ?? null; // déjà décodé par le routeur
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const local = useMemo(() => (communityId ? null : loadLocalBoard(location.hash)), [communityId, location.hash]);
+
+  const [community, setCommunity] = useState<LoadedBoard & { loading: boolean }>({ board: null, error: null, source: "Création de la communauté", loading: true });
+
+  useEffect(() => {
+    if (!communityId) return;
+    const ctrl = new AbortController();
+
+    (async () => {
+      try {
+        setCommunity((c) => ({ ...c, loading: true, error: null }));
+        const data = await getCreation(communityId, ctrl.signal);
+        if (!data) {
+          setCommunity({ board: null, error: "Création introuvable.", source: "Création de la communauté", loading: false });
+          return;
+        }
+        setCommunity({ board: documentToSnapshot(data.board), error: null, source: `Création de la communauté : ${data.title}`, loading: false });
+      } catch (e) {
+        if (ctrl.signal.aborted) return;
+        const error = e instanceof Error ? `Impossible de charger la création : ${e.message}` : "Impossible de charger la création.";
+        setCommunity({ board: null, error, source: "Création de la communauté", loading: false });
+      }
+    })();
+
+    return () => ctrl.abort();
+  }, [communityId]);
+
+  const { board, error, source } = local ?? community;
+  const loading = !local && community.loading;
+
+  const [picked, setPicked] = useState<{ anchor: string; it: PlacedItem } | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  // zone du plateau, pour borner le zoom
+  const areaRef = useRef<HTMLDivElement | null>(null);
+  const [area, setArea] = useState({ w: 0, h: 0 });
+  const panZoom = usePanZoom(area, { mouse: true });
+
+  useLayoutEffect(() => {
+    const el = areaRef.current;
+    if (!el) return;
+
+    const ro = new ResizeObserver((entries) => {
+      const cr = entries[0]?.contentRect;
+      if (!cr) return;
+      setArea({ w: cr.width, h: cr.height });
+    });
+
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  // sortie du plein écran par le navigateur (Échap, geste système)
+  useEffect(() => {
+    const onChange = () => {
+      if (!document.fullscreenElement) setIsFullscreen(false);
+    };
+    document.addEventListener("fullscreenchange", onChange);
+    return () => document.removeEventListener("fullscreenchange", onChange);
+  }, []);
+
+  function enterFullscreen() {
+    setIsFullscreen(true);
+    setPicked(null);
+    // pas d'API plein écran (iPhone) : l'interface est masquée quand même
+    document.documentElement.requestFullscreen?.().catch(() => {});
+  }
+
+  function exitFullscreen() {
+    setIsFullscreen(false);
+    if (document.fullscreenElement) void document.exitFullscreen();
+  }
+
+  function openInEditor() {
+    if (communityId) navigate(`/?communityId=${encodeURIComponent(communityId)}`);
+    else navigate(`/${readSharedHash(location.hash) ? location.hash : ""}`);
+  }
+
+  return (
+    <div className="flex h-dvh w-screen flex-col bg-neutral-950 text-neutral-100">
+      {!isFullscreen && (
+        <header className="flex items-center justify-between gap-3 px-3 py-2">
+          <div className="min-w-0">
+            <h1 className="truncate font-hobo text-lg tracking-wide">{board?.boardName || "Plateau"}</h1>
+            <p className="truncate text-xs text-neutral-400">{loading ? "Chargement…" : source}</p>
+          </div>
+
+          <div className="flex shrink-0 gap-2">
+            <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700 disabled:opacity-40" onClick={enterFullscreen} disabled={!board}>
+              Plein écran
+            </button>
+            <button className="rounded-xl bg-neutral-800 px-3 py-2 text-sm hover:bg-neutral-700" onClick={openInEditor}>
+              Éditeur
+            </button>
+          </div>
+        </header>
+      )}
+
+      <main
+        ref={areaRef}
+        className={["relative min-h-0 flex-1 touch-none overflow-hidden bg-[#ff2020]", isFullscreen ? "" : "mx-3 mb-3 rounded-2xl"].join(" ")}
+        {...panZoom.bind}
+        onWheel={panZoom.onWheel}
+      >
+        {board ? (
+          <div className="h-full w-full p-2" style={panZoom.style}>
+            <BoardView
+              board={board}
+              fit="contain"
+              highlightCells={picked ? getCellsForFootprint(picked.anchor, picked.it.size) : undefined}
+              onCellClick={(cellKey, it) => {
+                if (panZoom.wasGesture()) return; // fin d'un glisser, pas un appui
+                const anchor = getAnchorKeyFromCellKey(cellKey, board.grid);
+                setPicked(it && anchor ? { anchor, it } : null);
+              }}
+            />
+          </div>
+        ) : (
+          <div className="flex h-full w-full items-center justify-center p-6">
+            <div className="max-w-sm rounded-xl bg-black/10 px-4 py-3 text-center text-sm text-black/80">{loading ? "Chargement…" : error}</div>
+          </div>
+        )}
+
+        {panZoom.view.zoom > 1 ? (
+          <button className="absolute left-2 top-2 z-[70] rounded-lg bg-neutral-900/90 px-2 py-1 text-xs text-neutral-100 shadow" onClick={panZoom.reset}>
+            {Math.round(panZoom.view.zoom * 100)} % · Réinitialiser
+          </button>
+        ) : null}
+
+        {isFullscreen ? (
+          <button
+            className="absolute right-2 top-2 z-[70] rounded-lg bg-neutral-900/90 px-3 py-1 text-sm text-neutral-100 shadow"
+            onClick={exitFullscreen}
+            aria-label="Quitter le plein écran"
+          >
+            ✕
+          </button>
+        ) : null}
+
+        {picked ? (
+          <div className="absolute inset-x-3 bottom-3 z-[60] rounded-xl border border-neutral-800 bg-neutral-900/95 p-3 text-sm shadow-xl">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="truncate font-semibold">{picked.it.name}</div>
+                <div className="text-xs text-neutral-400">{getCellLabel(picked.anchor)}</div>
+              </div>
+              <button className="rounded-md px-2 py-0.5 text-neutral-400 hover:bg-neutral-800 hover:text-neutral-100" onClick={() => setPicked(null)} aria-label="Fermer les détails">
+                ✕
+              </button>
+            </div>
+            <ul className="mt-2 space-y-0.5 text-neutral-300">
+              {describeTile(picked.it).map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+      </main>
+    </div>
+  );
+}
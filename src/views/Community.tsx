@@ -1,23 +1,11 @@
 import { useEffect, useMemo, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
-
-type MiniCell = { tileType?: string; type?: string };
-
-type BoardJsonLike = {
-  rows?: number;
-  cols?: number;
-  grid?: Record<string, MiniCell>;
-  items?: Array<MiniCell & { at?: string; cellKey?: string }>;
-};
-
-type CommunityCreation = {
-  id: string;
-  title: string;
-  publishedAt: string; // ISO
-  boardJson: BoardJsonLike;
-};
+import BoardView from "../components/BoardView";
+import { documentToSnapshot, type BoardDocument } from "../utils/boardFormat";
+import { listCreations, type CommunityCreation } from "../utils/communityApi";
 
 const PAGE_SIZE = 10;
+const SEARCH_DEBOUNCE_MS = 300;
 
 function formatDate(iso: string) {
   const d = new Date(iso);
@@ -26,195 +14,88 @@ function formatDate(iso: string) {
 }
 
 /**
- * Mini preview “grille” :
- * - base sombre
- * - on colorie légèrement les cellules occupées selon le type
+ * Aperçu d'une création : même rendu que l'éditeur, en lecture seule
  */
-function MiniBoardPreview({ boardJson }: { boardJson: BoardJsonLike }) {
-  const rows = Math.max(1, Math.min(50, boardJson?.rows ?? 10));
-  const cols = Math.max(1, Math.min(50, boardJson?.cols ?? 10));
-
-  const occupied = useMemo(() => {
-    const m = new Map<string, string>();
-
-    // Cas 1: grid: Record<cellKey, cell>
-    if (boardJson?.grid) {
-      for (const [k, v] of Object.entries(boardJson.grid)) {
-        const tt = v?.tileType ?? v?.type ?? "unknown";
-        m.set(k, tt);
-      }
-    }
-
-    // Cas 2: items: [{ at: "r-c" | cellKey, tileType }]
-    if (Array.isArray(boardJson?.items)) {
-      for (const it of boardJson.items) {
-        const key = it.cellKey ?? it.at;
-        if (!key) continue;
-        const tt = it?.tileType ?? it?.type ?? "unknown";
-        m.set(key, tt);
-      }
-    }
-
-    return m;
-  }, [boardJson]);
-
-  const tileClass = (tileType: string) => {
-    const t = (tileType || "").toLowerCase();
-    if (t.includes("road")) return "bg-white/10 border-white/10";
-    if (t.includes("school")) return "bg-amber-500/15 border-amber-400/20";
-    if (t.includes("safe")) return "bg-emerald-500/15 border-emerald-400/20";
-    if (t.includes("forest")) return "bg-lime-500/12 border-lime-400/15";
-    return "bg-sky-500/10 border-sky-400/15";
-  };
-
-  const parseKey = (key: string) => {
-    // support "r-c" ou "r,c" ou "r_c"
-    const cleaned = key.replace(",", "-").replace("_", "-");
-    const [r, c] = cleaned.split("-").map((x) => Number(x));
-    if (!Number.isFinite(r) || !Number.isFinite(c)) return null;
-    return { r, c };
-  };
-
-  const occupiedIndex = useMemo(() => {
-    // On transforme en index 0..(rows*cols-1) si possible
-    const set = new Map<number, string>();
-    for (const [k, tt] of occupied.entries()) {
-      const rc = parseKey(k);
-      if (!rc) continue;
-      const { r, c } = rc;
-      if (r < 0 || c < 0 || r >= rows || c >= cols) continue;
-      set.set(r * cols + c, tt);
+function CreationPreview({ board }: { board: BoardDocument }) {
+  const snapshot = useMemo(() => {
+    try {
+      return documentToSnapshot(board);
+    } catch {
+      return null;
     }
-    return set;
-  }, [occupied, rows, cols]);
+  }, [board]);
 
   return (
     <div className="rounded-xl border border-white/10 bg-black/30 p-3">
-      <div className="grid gap-[2px] rounded-lg bg-black/40 p-2" style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}>
-        {Array.from({ length: rows * cols }).map((_, i) => {
-          const tt = occupiedIndex.get(i);
-          return (
-            <div
-              key={i}
-              className={["aspect-square rounded-[3px] border", tt ? tileClass(tt) : "bg-white/[0.03] border-white/[0.04]"].join(" ")}
-              title={tt ? tt : ""}
-            />
-          );
-        })}
-      </div>
+      {snapshot ? (
+        <div className="rounded-lg bg-[#ff2020] p-2">
+          <BoardView board={snapshot} />
+        </div>
+      ) : (
+        <div className="rounded-lg bg-black/40 px-3 py-6 text-center text-xs text-white/50">Aperçu indisponible</div>
+      )}
 
       <div className="mt-2 flex items-center justify-between text-[11px] text-white/60">
         <span>
-          {rows}×{cols}
+          {board.rows}×{board.cols}
         </span>
-        <span>{occupiedIndex.size} tuile(s)</span>
+        <span>{board.items.length} tuile(s)</span>
       </div>
     </div>
   );
 }
 
-// TODO: remplace par ton appel API
-async function fetchCommunityCreations(): Promise<CommunityCreation[]> {
-  return [
-    {
-      id: "c_1007",
-      title: "Plateau école - quartier Nord",
-      publishedAt: new Date(Date.now() - 1000 * 60 * 60 * 6).toISOString(),
-      boardJson: {
-        rows: 8,
-        cols: 10,
-        items: [
-          { tileType: "road", at: "2-2" },
-          { tileType: "school", at: "4-6" },
-        ],
-      },
-    },
-    {
-      id: "c_1006",
-      title: "Ville simple (démo)",
-      publishedAt: new Date(Date.now() - 1000 * 60 * 60 * 22).toISOString(),
-      boardJson: {
-        rows: 8,
-        cols: 10,
-        items: [
-          { tileType: "safe_place", at: "1-1" },
-          { tileType: "road", at: "1-2" },
-        ],
-      },
-    },
-    {
-      id: "c_1005",
-      title: "Safe place + routes",
-      publishedAt: new Date(Date.now() - 1000 * 60 * 60 * 30).toISOString(),
-      boardJson: {
-        rows: 8,
-        cols: 10,
-        items: [
-          { tileType: "road", at: "6-3" },
-          { tileType: "road", at: "6-4" },
-        ],
-      },
-    },
-    {
-      id: "c_1004",
-      title: "Centre-ville compact",
-      publishedAt: new Date(Date.now() - 1000 * 60 * 60 * 40).toISOString(),
-      boardJson: { rows: 8, cols: 10, items: [{ tileType: "forest", at: "0-0" }] },
-    },
-  ].sort((a, b) => +new Date(b.publishedAt) - +new Date(a.publishedAt));
-}
-
 export default function Community() {
   const navigate = useNavigate();
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const [all, setAll] = useState<CommunityCreation[]>([]);
+  const [featured, setFeatured] = useState<CommunityCreation[]>([]);
+  const [pageItems, setPageItems] = useState<CommunityCreation[]>([]);
+  const [total, setTotal] = useState(0);
+
   const [query, setQuery] = useState("");
+  const [search, setSearch] = useState("");
   const [page, setPage] = useState(1);
 
+  // la recherche est faite côté serveur : on attend que la frappe se calme
+  useEffect(() => {
+    const t = window.setTimeout(() => setSearch(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(t);
+  }, [query]);
+
+  // les 3 dernières, indépendamment de la recherche
+  useEffect(() => {
+    const ctrl = new AbortController();
+    listCreations({ page: 1, pageSize: 3 }, ctrl.signal)
+      .then((res) => setFeatured(res.items))
+      .catch(() => {
+        // l'erreur est déjà affichée par le chargement de la galerie
+      });
+    return () => ctrl.abort();
+  }, []);
+
   useEffect(() => {
-    let alive = true;
+    const ctrl = new AbortController();
     (async () => {
       try {
         setLoading(true);
         setError(null);
-        const data = await fetchCommunityCreations();
-        if (!alive) return;
-        setAll(data);
-      } catch {
-        if (!alive) return;
-        setError("Impossible de charger les créations.");
+        const res = await listCreations({ q: search, page, pageSize: PAGE_SIZE }, ctrl.signal);
+        setPageItems(res.items);
+        setTotal(res.total);
+      } catch (e) {
+        if (ctrl.signal.aborted) return;
+        setError(e instanceof Error ? `Impossible de charger les créations : ${e.message}` : "Impossible de charger les créations.");
       } finally {
-        if (!alive) return;
-        setLoading(false);
+        if (!ctrl.signal.aborted) setLoading(false);
       }
     })();
-    return () => {
-      alive = false;
-    };
-  }, []);
-
-  const filtered = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    if (!q) return all;
-    return all.filter((x) => x.title.toLowerCase().includes(q));
-  }, [all, query]);
-
-  const featured = useMemo(() => filtered.slice(0, 3), [filtered]);
+    return () => ctrl.abort();
+  }, [search, page]);
 
-  const totalPages = useMemo(() => Math.max(1, Math.ceil(filtered.length / PAGE_SIZE)), [filtered.length]);
-
-  const pageItems = useMemo(() => {
-    const start = (page - 1) * PAGE_SIZE;
-    return filtered.slice(start, start + PAGE_SIZE);
-  }, [filtered, page]);
-
-  useEffect(() => setPage(1), [query]);
-  useEffect(() => {
-    if (page > totalPages) setPage(totalPages);
-  }, [page, totalPages]);
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -244,13 +125,16 @@ export default function Community() {
             <label className="mb-1 block text-sm font-medium text-white/80">Rechercher par nom</label>
             <input
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setPage(1);
+              }}
               placeholder="Ex: école, centre-ville, safe place…"
               className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm outline-none focus:border-white/20"
             />
           </div>
 
-          <div className="text-sm text-white/60">{loading ? "Chargement…" : `${filtered.length} carte(s)`}</div>
+          <div className="text-sm text-white/60">{loading ? "Chargement…" : `${total} carte(s)`}</div>
         </div>
 
         {error && <div className="mb-6 rounded-xl border border-red-500/25 bg-red-500/10 px-4 py-3 text-sm text-red-100">{error}</div>}
@@ -259,7 +143,7 @@ export default function Community() {
         <section className="mb-8">
           <h2 className="mb-3 text-base font-semibold text-white/90">Les 3 dernières</h2>
 
-          {loading ? (
+          {loading && featured.length === 0 ? (
             <div className="rounded-xl border border-white/10 bg-white/5 px-4 py-6 text-sm text-white/60">Chargement…</div>
           ) : featured.length === 0 ? (
             <div className="rounded-xl border border-white/10 bg-white/5 px-4 py-6 text-sm text-white/60">Aucune carte à afficher.</div>
@@ -280,7 +164,7 @@ export default function Community() {
                   </div>
 
                   <div className="mt-3">
-                    <MiniBoardPreview boardJson={it.boardJson} />
+                    <CreationPreview board={it.board} />
                   </div>
                 </Link>
               ))}
@@ -337,7 +221,7 @@ export default function Community() {
                   </div>
 
                   <div className="mt-3">
-                    <MiniBoardPreview boardJson={it.boardJson} />
+                    <CreationPreview board={it.board} />
                   </div>
                 </Link>
               ))}
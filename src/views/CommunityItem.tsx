@@ -1,19 +1,11 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import { useNavigate, useParams } from "react-router-dom";
-
-import Grid from "../components/Grid";
-import type { Cell, DragPayload, PlacedItem } from "../views/BoardBuilder";
-
-type CommunityCreation = {
-  id: string;
-  title: string;
-  publishedAt: string;
-  // On suppose que tu stockes exactement ce qu’il faut pour re-rendre la grille.
-  rows: number;
-  cols: number;
-  grid: Record<string, Cell>;
-  boardName: string;
-};
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+
+import BoardView from "../components/BoardView";
+import type { BoardSnapshot } from "../views/BoardBuilder";
+import { documentToSnapshot } from "../utils/boardFormat";
+import { copyText } from "../utils/clipboard";
+import { getCreation, type CommunityCreation } from "../utils/communityApi";
 
 function formatDateTime(iso: string) {
   const d = new Date(iso);
@@ -27,24 +19,6 @@ function formatDateTime(iso: string) {
   });
 }
 
-/**
- * TODO: remplace par ton fetch réel :
- * - GET /community/:id
- * - doit renvoyer rows/cols/grid/boardName (et idéalement title/publishedAt)
- */
-async function fetchCreationById(id: string): Promise<CommunityCreation | null> {
-  // DEMO (à remplacer)
-  return {
-    id,
-    title: "Création communautaire",
-    publishedAt: new Date().toISOString(),
-    rows: 6,
-    cols: 8,
-    boardName: "Ma carte",
-    grid: {} as Record<string, Cell>,
-  };
-}
-
 export default function CommunityItem() {
   const { id } = useParams<{ id: string }>();
   const decodedId = useMemo(() => (id ? decodeURIComponent(id) : ""), [id]);
@@ -53,12 +27,10 @@ export default function CommunityItem() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [item, setItem] = useState<CommunityCreation | null>(null);
-
-  // Ref requis par ton Grid (ResizeObserver)
-  const gridAreaRef = useRef<HTMLDivElement | null>(null);
+  const [board, setBoard] = useState<BoardSnapshot | null>(null);
 
   useEffect(() => {
-    let alive = true;
+    const ctrl = new AbortController();
 
     (async () => {
       try {
@@ -71,43 +43,33 @@ export default function CommunityItem() {
           return;
         }
 
-        const data = await fetchCreationById(decodedId);
-        if (!alive) return;
-
+        const data = await getCreation(decodedId, ctrl.signal);
         if (!data) {
           setError("Création introuvable.");
           setItem(null);
           return;
         }
 
+        setBoard(documentToSnapshot(data.board));
         setItem(data);
-      } catch {
-        if (!alive) return;
-        setError("Impossible de charger la création.");
+      } catch (e) {
+        if (ctrl.signal.aborted) return;
+        setError(e instanceof Error ? `Impossible de charger la création : ${e.message}` : "Impossible de charger la création.");
       } finally {
-        if (!alive) return;
-        setLoading(false);
+        if (!ctrl.signal.aborted) setLoading(false);
       }
     })();
 
-    return () => {
-      alive = false;
-    };
+    return () => ctrl.abort();
   }, [decodedId]);
 
   async function copyLink() {
     const url = window.location.href;
     try {
-      await navigator.clipboard.writeText(url);
+      await copyText(url);
       alert("Lien copié.");
     } catch {
-      const ta = document.createElement("textarea");
-      ta.value = url;
-      document.body.appendChild(ta);
-      ta.select();
-      document.execCommand("copy");
-      document.body.removeChild(ta);
-      alert("Lien copié.");
+      window.prompt("Copie impossible. Copie ce lien à la main :", url);
     }
   }
 
@@ -121,59 +83,6 @@ export default function CommunityItem() {
     window.print();
   }
 
-  // ---- Mode lecture seule pour Grid ----
-  const selectedCell = null;
-
-  const noopSetSelectedCell = () => {};
-  const noopOnBoardNameChange = () => {};
-
-  const computeCellZIndex = () => 0;
-
-  // IMPORTANT: si tu as déjà une vraie méthode globale, remplace cette fonction
-  // pour pointer vers tes assets.
-  const getTileUrl = (type: string) => {
-    // Exemple : /tiles/<type>.png
-    return `/tiles/${type}.png`;
-  };
-
-  // On essaye d’être robuste sur la structure de Cell
-  const getAnchorKeyFromCellKey = (cellKey: string) => {
-    const cell = item?.grid?.[cellKey] as any;
-    if (!cell) return null;
-    // Si ton Cell contient un anchorKey
-    if (typeof cell.anchorKey === "string") return cell.anchorKey;
-    // Si le cell lui-même est un anchor (contient item)
-    if (cell.item || cell.it || cell.placedItem) return cellKey;
-    return null;
-  };
-
-  const getAnchorItem = (anchorKey: string) => {
-    const cell = item?.grid?.[anchorKey] as any;
-    if (!cell) return null;
-    return (cell.item ?? cell.it ?? cell.placedItem ?? null) as PlacedItem | null;
-  };
-
-  const parsePayload = () => null as DragPayload | null;
-  const placeAtCell = () => {};
-  const getDropAnchorCell = (targetCell: string) => targetCell;
-
-  const startDragMoveFromCell = (e: React.DragEvent) => {
-    // On bloque le drag en communauté
-    e.preventDefault();
-    e.stopPropagation();
-  };
-
-  // Rendu simple : image en background (tu peux réinjecter ton overlay si besoin)
-  const renderTileLayer = ({ it, tileBg }: { it: PlacedItem; tileBg: string | null; cellKey: string }) => {
-    // si tileBg est null, on affiche rien
-    if (!tileBg) return null;
-    return (
-      <div className="h-full w-full">
-        <img src={tileBg} alt={it.type} draggable={false} className="h-full w-full object-cover" />
-      </div>
-    );
-  };
-
   return (
     <div className="min-h-screen bg-black text-white">
       {/* Bandeau top */}
@@ -183,6 +92,14 @@ export default function CommunityItem() {
           <div className="mt-1 text-sm text-white/70">
             {loading ? "Chargement…" : item ? `Publié le ${formatDateTime(item.publishedAt)} — ${item.title}` : "—"}
           </div>
+          {item?.board.remixOf ? (
+            <div className="mt-1 text-xs text-white/50">
+              Remix de{" "}
+              <Link to={`/community/${encodeURIComponent(item.board.remixOf)}`} className="underline hover:text-white/80">
+                #{item.board.remixOf}
+              </Link>
+            </div>
+          ) : null}
         </div>
 
         <div className="flex items-center gap-2">
@@ -202,6 +119,14 @@ export default function CommunityItem() {
             Ouvrir dans l&apos;éditeur
           </button>
 
+          <button
+            onClick={() => navigate(`/view/${encodeURIComponent(decodedId)}`)}
+            disabled={loading || !item}
+            className="rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm hover:bg-white/10 disabled:opacity-40"
+          >
+            Visionneuse
+          </button>
+
           <button
             onClick={handlePrint}
             disabled={loading || !item}
@@ -223,31 +148,19 @@ export default function CommunityItem() {
           {/* Grid full zone */}
           <div className="absolute inset-0">
             <div className="h-full w-full">
-              {loading || !item ? (
+              {loading || !item || !board ? (
                 <div className="flex h-full w-full items-center justify-center">
                   <div className="rounded-xl bg-black/10 px-4 py-3 text-sm text-black/80">Chargement…</div>
                 </div>
               ) : (
-                <div className="h-full w-full">
-                  <Grid
-                    rows={item.rows}
-                    cols={item.cols}
-                    grid={item.grid}
-                    boardName={item.boardName}
-                    onBoardNameChange={noopOnBoardNameChange}
-                    selectedCell={selectedCell}
-                    setSelectedCell={noopSetSelectedCell}
-                    gridAreaRef={gridAreaRef}
-                    computeCellZIndex={computeCellZIndex}
-                    getTileUrl={getTileUrl}
-                    getAnchorKeyFromCellKey={getAnchorKeyFromCellKey}
-                    getAnchorItem={getAnchorItem}
-                    parsePayload={parsePayload}
-                    placeAtCell={placeAtCell}
-                    getDropAnchorCell={getDropAnchorCell}
-                    startDragMoveFromCell={startDragMoveFromCell as any}
-                    renderTileLayer={renderTileLayer}
-                  />
+                <div className="flex h-full w-full flex-col p-3">
+                  <div className="min-h-0 flex-1">
+                    <BoardView board={board} fit="contain" printable />
+                  </div>
+                  <div className="mt-4 w-80 border-3 border-black bg-[#ffc223] p-1 font-hobo text-xl text-black bb-print-input">{board.boardName}</div>
+                  <span className="bb-print-bottom-line hidden text-black">
+                    Carte créée sur dtts-builder.thomaspelfrene.com | Carte de jeu non officielle | thomaspelfrene.com
+                  </span>
                 </div>
               )}
             </div>
@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // URL de l'API communautaire (défaut : "/api", servi par le mock Vite en dev)
+  readonly VITE_COMMUNITY_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}